@@ -0,0 +1,242 @@
+// cli/analyze-file.ts
+// Per-file analysis shared by the single-file CLI, batch mode and its worker threads
+
+import fs from "fs";
+import { PitchEngine } from "../core/pitch-engine";
+import type { PitchDetectorKind, PitchResult } from "../core/pitch-engine";
+import type { DSPConfig } from "../core/dsp/dsp-config";
+import { decodeWav, selectChannel } from "../core/wav";
+import type { ChannelSelection, DecodedWav } from "../core/wav";
+import { iterateFrames, resolveHopSize } from "../core/dsp/framing";
+import { resampleToAnalysisRate } from "../core/dsp/resample";
+import { resolveAnalysisRegion } from "../core/dsp/attack";
+import type { AnalysisRegion, RegionOptions } from "../core/dsp/attack";
+import { estimateNoiseProfile } from "../core/dsp/denoise";
+import type { NoiseProfile } from "../core/dsp/denoise";
+import { FilterBank, resolveHumFilter } from "../core/dsp/filters";
+import type { HumDetection } from "../core/dsp/hum";
+import { fitFrameSize } from "../core/instruments";
+import { centsOffFromReference, frequencyToNote, parseExpectedNote } from "../core/note-utils";
+import type { TuningConfig } from "../core/note-utils";
+
+/** Everything needed to analyze a file; plain data so it can be sent to a worker */
+export interface AnalysisSettings {
+  dspConfig: DSPConfig;
+  tuning: TuningConfig;
+  detector: PitchDetectorKind;
+  channel: ChannelSelection;
+  /** Expected note for every file ("C4", "440"); cents are measured against it */
+  expected?: string;
+  /** In-tune window in cents (PitchResult.inTune; batch pass/fail) */
+  tolerance?: number;
+  /** Start/end (seconds) and attack skip; default: whole file minus the detected attack */
+  region?: RegionOptions;
+  /** Stretch of background noise (seconds) to learn the noise profile from */
+  noiseRegion?: NoiseRegion;
+}
+
+/** Time span in seconds from the file start */
+export interface NoiseRegion {
+  start: number;
+  end: number;
+}
+
+export interface PreparedAudio {
+  decoded: DecodedWav;
+  /** Mono, at the analysis rate, cut to the region with the attack skipped */
+  audio: Float32Array;
+  sampleRate: number;
+  /** Config with frameSize fitted to minFrequency at the analysis rate and humFilter "auto" resolved */
+  dspConfig: DSPConfig;
+  /** Region in samples at the analysis rate; frame times count from the file start */
+  region: AnalysisRegion;
+  /** Learned from the noise region (any part of the file, at the analysis rate) */
+  noiseProfile?: NoiseProfile;
+  /** Set for humFilter "auto": hum found in the whole file, null when none */
+  hum?: HumDetection | null;
+}
+
+export interface AnalyzedFrame {
+  time: number;
+  result: PitchResult;
+}
+
+/** One line of the batch report */
+export interface FileSummary {
+  file: string;
+  sampleRate: number;
+  duration: number;
+  /** Median frequency over voiced frames (Hz), null when no frame was voiced */
+  frequency: number | null;
+  /** Nearest note to that frequency */
+  note: string | null;
+  /** Expected note as given, when set */
+  expected: string | null;
+  /** Deviation in cents from the expected note, or from the nearest note without one */
+  cents: number | null;
+  /** Mean confidence over voiced frames */
+  confidence: number;
+  /** Share of frames classified voiced (0–1) */
+  voicedRatio: number;
+  frames: number;
+}
+
+/**
+ * Decode, pick the channel, resample to the analysis rate, fit the frame size,
+ * detect mains hum, profile the noise region, cut to the region and skip the attack
+ * @throws Error on unreadable / unsupported WAV data, a bad channel index,
+ * an empty region / noise region or a region shorter than one frame after
+ * the attack skip
+ */
+export function prepareAudio(
+  data: ArrayBufferView,
+  dspConfig: DSPConfig,
+  channel: ChannelSelection,
+  regionOptions: RegionOptions = {},
+  noiseRegion?: NoiseRegion
+): PreparedAudio {
+  const decoded = decodeWav(data);
+  // Mono for analysis: chosen channel or mix of all channels
+  const mono = selectChannel(decoded.channelData, channel);
+  // Normalize to the analysis rate (no-op unless analysisSampleRate is set)
+  const { audio, sampleRate } = resampleToAnalysisRate(mono, decoded.sampleRate, dspConfig);
+  // Longer frames when the minimum F0 needs lags the configured frameSize can't hold
+  const fitted = fitFrameSize(dspConfig, sampleRate);
+  // Hum is steady, so the whole file is measured (notches then apply from the first frame)
+  const { config: withHum, hum } = resolveHumFilter(fitted, audio, sampleRate);
+  const region = resolveAnalysisRegion(audio, sampleRate, regionOptions);
+  if (region.end - region.start < fitted.frameSize) {
+    throw new Error(
+      `Analysis region is too short after the attack skip: at least ${((fitted.frameSize / sampleRate) * 1000).toFixed(0)} ms is needed`
+    );
+  }
+  const prepared: PreparedAudio = {
+    decoded,
+    audio: audio.subarray(region.start, region.end),
+    sampleRate,
+    dspConfig: withHum,
+    region,
+  };
+  if (fitted.humFilter === "auto") prepared.hum = hum;
+  if (noiseRegion) {
+    const duration = audio.length / sampleRate;
+    if (noiseRegion.start >= duration) {
+      throw new Error(`Noise region start ${noiseRegion.start} s is past the end of the audio (${duration.toFixed(2)} s)`);
+    }
+    const noise = audio.subarray(Math.floor(noiseRegion.start * sampleRate), Math.ceil(noiseRegion.end * sampleRate));
+    // Profiled after the same filters the denoised frames go through
+    const filtered = new FilterBank(sampleRate, withHum).processFrame(noise);
+    prepared.noiseProfile = estimateNoiseProfile(filtered, sampleRate, fitted.frameSize);
+  }
+  return prepared;
+}
+
+/**
+ * Run the engine over every frame
+ * pYIN: results are rewritten from the full Viterbi path (with look-ahead)
+ * instead of the online per-frame estimates.
+ */
+export function analyzeFrames(
+  prepared: PreparedAudio,
+  settings: AnalysisSettings,
+  onFrame?: (frame: AnalyzedFrame, start: number) => void
+): AnalyzedFrame[] {
+  const { audio, sampleRate, dspConfig, region } = prepared;
+  const engine = new PitchEngine(sampleRate, dspConfig, {
+    detector: settings.detector,
+    noiseProfile: prepared.noiseProfile,
+    // Decode the whole file, not just the last frames the live cap keeps
+    pyin: { maxHistory: Infinity },
+  });
+  const frames: AnalyzedFrame[] = [];
+
+  for (const { start, time, hop, frame } of iterateFrames(
+    audio,
+    dspConfig.frameSize,
+    resolveHopSize(dspConfig),
+    sampleRate,
+    region.start
+  )) {
+    const result = engine.processFrame(frame, {
+      expectedNote: settings.expected,
+      smoothing: true,
+      hop,
+      tuning: settings.tuning,
+      tolerance: settings.tolerance,
+    });
+    frames.push({ time, result });
+    onFrame?.({ time, result }, start);
+  }
+
+  const track = engine.decodePitchTrack();
+  if (track) {
+    if (track.length !== frames.length) {
+      throw new Error(`pYIN decoded ${track.length} of ${frames.length} frames`);
+    }
+    frames.forEach(({ result }, i) => {
+      const frequency = track[i] ?? null;
+      result.frequency = frequency;
+      result.rawFrequency = frequency;
+      result.note = frequency ? frequencyToNote(frequency, settings.tuning).note : undefined;
+      if (frequency === null && result.voiced) {
+        result.voiced = false;
+        result.unvoicedReason = "no-pitch";
+      }
+    });
+  }
+  return frames;
+}
+
+/**
+ * Analyze one file for the batch report: median pitch of the voiced frames
+ * and its deviation from the expected (or nearest) note
+ * @throws Error when the file can't be read or decoded
+ */
+export function summarizeFile(file: string, settings: AnalysisSettings): FileSummary {
+  if (!fs.existsSync(file)) throw new Error("file not found");
+  const prepared = prepareAudio(
+    fs.readFileSync(file),
+    settings.dspConfig,
+    settings.channel,
+    settings.region,
+    settings.noiseRegion
+  );
+  const frames = analyzeFrames(prepared, settings);
+
+  const voiced = frames.filter(({ result }) => result.voiced && result.frequency !== null);
+  const summary: FileSummary = {
+    file,
+    sampleRate: prepared.decoded.sampleRate,
+    duration: round(prepared.decoded.length / prepared.decoded.sampleRate, 3),
+    frequency: null,
+    note: null,
+    expected: settings.expected ?? null,
+    cents: null,
+    confidence: 0,
+    voicedRatio: frames.length ? round(voiced.length / frames.length, 3) : 0,
+    frames: frames.length,
+  };
+  if (voiced.length === 0) return summary;
+
+  const frequency = median(voiced.map(({ result }) => result.frequency!));
+  const note = frequencyToNote(frequency, settings.tuning).note;
+  const target = settings.expected
+    ? parseExpectedNote(settings.expected, settings.tuning)
+    : parseExpectedNote(note, settings.tuning);
+  summary.frequency = round(frequency, 3);
+  summary.note = note;
+  summary.cents = target ? round(centsOffFromReference(frequency, target), 2) : null;
+  summary.confidence = round(voiced.reduce((sum, { result }) => sum + result.confidence, 0) / voiced.length, 4);
+  return summary;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function round(value: number, digits: number): number {
+  const f = Math.pow(10, digits);
+  return Math.round(value * f) / f;
+}
@@ -2,91 +2,716 @@
 // Command-line tuner for analyzing WAV files using the PitchEngine
 
 import fs from "fs";
-import { decode } from "wav-decoder";
+import path from "path";
 import { Command } from "commander";
 import { PitchEngine } from "../core/pitch-engine";
-import { defaultDSPConfig } from "../core/dsp/dsp-config";
+import type { PitchDetectorKind, PitchResult } from "../core/pitch-engine";
+import type { DSPConfig } from "../core/dsp/dsp-config";
+import { validateDSPConfig } from "../core/dsp/config-schema";
+import type { ChannelSelection } from "../core/wav";
+import { iterateFrames, resolveHopSize } from "../core/dsp/framing";
+import { applyInstrumentPreset, INSTRUMENT_NAMES } from "../core/instruments";
+import { centsOffFromReference, parseExpectedNote, resolveTuning, TEMPERAMENT_NAMES } from "../core/note-utils";
+import type { TuningConfig, TemperamentName } from "../core/note-utils";
+import { CONTOUR_FORMATS, formatContour, toContourPoint } from "../core/contour";
+import type { ContourFormat, ContourPoint } from "../core/contour";
+import { segmentNotes } from "../core/segmentation";
+import { computeIntonationStats } from "../core/intonation";
+import type { IntonationStats } from "../core/intonation";
+import type { NoteEvent } from "../core/segmentation";
+import { encodeMidi } from "../core/midi";
+import { summarizeChord } from "../core/multipitch";
+import type { ChordNote } from "../core/multipitch";
+import { nextPowerOfTwo } from "../core/dsp/fft";
+import { DEFAULT_ATTACK_SKIP_SECONDS, parseAttackSkip } from "../core/dsp/attack";
+import type { AttackSkip, RegionOptions } from "../core/dsp/attack";
+import { NOISE_REDUCTION_METHODS } from "../core/dsp/denoise";
+import type { NoiseReductionMethod } from "../core/dsp/denoise";
+import { HUM_FILTER_MODES, humFrequencyFor } from "../core/dsp/hum";
+import type { HumFilterMode } from "../core/dsp/hum";
+import { createHumFilters, filterResponse, formatFilterChain, logFrequencies, parseFilterChain } from "../core/dsp/filters";
+import { analyzeFrames, prepareAudio } from "./analyze-file";
+import type { AnalysisSettings, NoiseRegion, PreparedAudio } from "./analyze-file";
+import { batchExitCode, countStatuses, expandInputs, formatReport, REPORT_FORMATS, runBatch } from "./batch";
+import type { BatchResult, ReportFormat } from "./batch";
+import { DEFAULT_PRESET_DIR, listPresets, PROJECT_CONFIG_FILE, resolveCliConfig } from "./dsp-config-files";
 
 // CLI Setup
 const program = new Command();
 program
   .name("tuner-analyze")
-  .description("Analyze pitch from a WAV file using YIN + DSP")
-  .argument("<file>", "Path to WAV file")
+  .description("Analyze pitch from WAV files using YIN + DSP")
+  .argument("[files...]", "WAV files, directories (searched recursively) or glob patterns")
   .option("-e, --expected <note>", "Expected note (ex: C4 or 440)")
   .option("-v, --verbose", "Show frame-by-frame analysis")
   .option("--json", "Output raw JSON instead of human format")
+  .option("--a4 <hz>", "Reference pitch for A4 in Hz", "440")
+  .option(
+    "-t, --temperament <name>",
+    `Temperament (${TEMPERAMENT_NAMES.join(", ")}) or 12 comma-separated cent offsets`,
+    "equal"
+  )
+  .option("--tonic <pitchClass>", "Tonic the temperament is built on (ex: C, D, Bb)", "C")
+  .option("-n, --notes", "List detected notes (onset, offset, pitch, cents, stability)")
+  .option("--midi <path>", "Save detected notes as a Standard MIDI File (format 0)")
+  .option("--midi-bend", "Add pitch-bend messages from each key (12-TET, A4 = 440 Hz) to the note's median pitch")
+  .option("-d, --detector <name>", "Pitch detector: yin or pyin (probabilistic YIN + Viterbi)", "yin")
+  .option("--channel <index|mix>", "Channel to analyze (0-based) or mix to average all channels", "mix")
+  .option("--hop <samples>", "Hop size between frames in samples (default from DSP config)")
+  .option("--rate <hz>", "Resample to this rate before analysis (0 = file rate; default from DSP config)")
+  .option("-p, --poly", "Also estimate simultaneous pitches and report the chord (notes + cents)")
+  .option("-i, --instrument <name>", `F0 range preset (${INSTRUMENT_NAMES.join(", ")})`)
+  .option("--min-freq <hz>", "Lowest F0 to search in Hz (overrides the preset; 0 = frame limit)")
+  .option("--max-freq <hz>", "Highest F0 to report in Hz (overrides the preset; 0 = no limit)")
+  .option("-c, --contour [format]", `Emit every frame as a pitch contour (${CONTOUR_FORMATS.join(", ")})`)
+  .option("-o, --output <path>", "Write the contour to a file instead of stdout")
+  .option("--report <path>", "Batch: write the summary report to a file (.csv or .json)")
+  .option("--report-format <format>", `Batch: report format (${REPORT_FORMATS.join(", ")}; default from --report extension)`)
+  .option("-j, --jobs <n>", "Batch: analyze files in this many worker threads", "1")
+  .option("--tolerance <cents>", "Fail when further than this from the expected note (or the nearest note): exit code 2 out of tolerance, 3 no pitch to check (1 is kept for usage and file errors)")
+  .option("--start <seconds>", "Analyze from this time in seconds (default: start of file)")
+  .option("--end <seconds>", "Analyze up to this time in seconds (default: end of file)")
+  .option(
+    "--attack-skip <seconds|auto>",
+    `Skip the attack after the start: seconds, or auto to detect it from the RMS envelope (default: auto, at most ${DEFAULT_ATTACK_SKIP_SECONDS} s, for the whole file; 0 with --start/--end)`
+  )
+  .option("--noise-region <start-end>", "Learn the noise spectrum from this stretch of background noise, in seconds (ex: 0-0.5)")
+  .option(
+    "--denoise <method>",
+    `Noise reduction before pitch detection (${NOISE_REDUCTION_METHODS.join(", ")}; default wiener with --noise-region)`
+  )
+  .option("--adaptive-gate", "Noise gate threshold follows the noise floor instead of noiseGateThreshold")
+  .option("--hum <mode>", `Notch mains hum and its harmonics (${HUM_FILTER_MODES.join(", ")}; auto detects 50 or 60 Hz)`)
+  .option("--filter <stages>", 'Filter chain replacing the configured one (ex: "highpass 40 order=4; lowpass 1200 order=8")')
+  .option("--filter-response [points]", "Print the gain of the configured filters at log-spaced frequencies and exit (default 24 points)")
+  .option("--config <path>", `DSP config file to use instead of ./${PROJECT_CONFIG_FILE}`)
+  .option("--preset <name>", "DSP preset applied over the config (built in: default, voice, bass, noisy-room)")
+  .option("--preset-dir <dir>", "Directory with user presets (<name>.json)", DEFAULT_PRESET_DIR)
+  .option("--list-presets", "List available DSP presets and exit")
   .parse(process.argv);
 
 const options = program.opts();
-const filePath = program.args[0];
+const inputs: string[] = program.args;
 
-if (!filePath || !fs.existsSync(filePath)) {
+if (options.listPresets) {
+  const presets = listPresets(options.presetDir);
+  const width = Math.max(...presets.map((p) => p.name.length));
+  console.log(`DSP presets (built in + ${options.presetDir}/):`);
+  for (const p of presets) {
+    console.log(`  ${p.name.padEnd(width)}  ${p.description}${p.source === "built-in" ? "" : `  [${p.source}]`}`);
+  }
+  process.exit(0);
+}
+
+// Several inputs, a directory or a glob → batch report instead of the single-file readout
+const { files, unmatched } = expandInputs(inputs);
+const batchMode =
+  files.length !== 1 ||
+  inputs.length > 1 ||
+  unmatched.length > 0 ||
+  files[0] !== inputs[0] ||
+  options.report !== undefined ||
+  options.jobs !== "1";
+for (const pattern of unmatched) console.error(`Warning: no files match ${pattern}`);
+if (files.length === 0 && options.filterResponse === undefined) {
+  console.error("Error: no WAV files to analyze");
+  process.exit(1);
+}
+const filePath = files[0];
+
+if (!batchMode && !fs.existsSync(filePath)) {
   console.error("Error: WAV file not found:", filePath);
   process.exit(1);
 }
 
-// Load WAV file
-(async () => {
-  const buffer = fs.readFileSync(filePath);
-  const decoded = await decode(buffer);
-  const sampleRate = decoded.sampleRate;
-  const engine = new PitchEngine(sampleRate, defaultDSPConfig);
-
-  console.log(`Analyzing: ${filePath}`);
-  console.log(`Sample Rate: ${sampleRate} Hz`);
-
-  // Convert stereo → mono
-  let audio: Float32Array | number[] = decoded.channelData[0];
-if (decoded.channelData.length > 1) {
-  audio = decoded.channelData[0].map((v: number, i: number) =>
-    (decoded.channelData[0][i] + decoded.channelData[1][i]) / 2
+// Tuning: A4 reference + temperament
+const temperament: TuningConfig["temperament"] = String(options.temperament).includes(",")
+  ? String(options.temperament).split(",").map((c) => parseFloat(c))
+  : (String(options.temperament) as TemperamentName);
+const tuning: TuningConfig = {
+  referenceFrequency: parseFloat(options.a4),
+  temperament,
+  tonic: options.tonic,
+};
+try {
+  resolveTuning(tuning);
+} catch (e: any) {
+  console.error("Error:", e?.message || e);
+  process.exit(1);
+}
+
+// DSP config: defaults ← dsp-config.json (or --config) ← --preset, then the flags below
+let dspConfig: DSPConfig;
+let configSources: string[];
+try {
+  const resolved = resolveCliConfig({ configPath: options.config, preset: options.preset, presetDir: options.presetDir });
+  for (const warning of resolved.warnings) console.error(`Warning: ${warning}`);
+  dspConfig = resolved.config;
+  configSources = resolved.sources;
+} catch (e: any) {
+  console.error("Error:", e?.message || e);
+  process.exit(1);
+}
+
+// Framing: --hop overrides the configured hop size
+if (options.hop !== undefined) {
+  const hop = parseInt(options.hop, 10);
+  if (!Number.isFinite(hop) || hop <= 0) {
+    console.error(`Error: --hop must be a positive integer (got "${options.hop}")`);
+    process.exit(1);
+  }
+  dspConfig.hopSize = hop;
+}
+if (options.rate !== undefined) {
+  const rate = Number(options.rate);
+  if (!Number.isFinite(rate) || rate < 0) {
+    console.error(`Error: --rate must be a sample rate in Hz or 0 (got "${options.rate}")`);
+    process.exit(1);
+  }
+  dspConfig.analysisSampleRate = rate;
+}
+
+// F0 range: instrument preset, then explicit --min-freq / --max-freq
+if (options.instrument !== undefined) {
+  try {
+    dspConfig = applyInstrumentPreset(dspConfig, String(options.instrument));
+  } catch (e: any) {
+    console.error("Error:", e?.message || e);
+    process.exit(1);
+  }
+}
+const rangeFlags = [
+  ["minFreq", "--min-freq", "minFrequency"],
+  ["maxFreq", "--max-freq", "maxFrequency"],
+] as const;
+for (const [option, flag, key] of rangeFlags) {
+  if (options[option] === undefined) continue;
+  const hz = Number(options[option]);
+  if (!Number.isFinite(hz) || hz < 0) {
+    console.error(`Error: ${flag} must be a frequency in Hz or 0 (got "${options[option]}")`);
+    process.exit(1);
+  }
+  dspConfig[key] = hz;
+}
+// Noise: --noise-region profiles background noise; --denoise picks the method
+let noiseRegion: NoiseRegion | undefined;
+if (options.noiseRegion !== undefined) {
+  const match = /^\s*(\d*\.?\d+)\s*[-:]\s*(\d*\.?\d+)\s*$/.exec(String(options.noiseRegion));
+  if (!match || Number(match[2]) <= Number(match[1])) {
+    console.error(`Error: --noise-region must be <start>-<end> in seconds with end after start (got "${options.noiseRegion}")`);
+    process.exit(1);
+  }
+  noiseRegion = { start: Number(match[1]), end: Number(match[2]) };
+}
+if (options.denoise !== undefined) {
+  if (!NOISE_REDUCTION_METHODS.includes(options.denoise)) {
+    console.error(`Error: unknown noise reduction "${options.denoise}" (use ${NOISE_REDUCTION_METHODS.join(", ")})`);
+    process.exit(1);
+  }
+  dspConfig.noiseReduction = options.denoise as NoiseReductionMethod;
+} else if (noiseRegion && (dspConfig.noiseReduction ?? "off") === "off") {
+  dspConfig.noiseReduction = "wiener";
+}
+if ((dspConfig.noiseReduction ?? "off") !== "off" && !noiseRegion) {
+  console.error(
+    `Error: noise reduction (${dspConfig.noiseReduction}) needs a noise profile: ` +
+      "pass --noise-region <start-end>, a stretch with only background noise"
   );
+  process.exit(1);
+}
+if (options.adaptiveGate) {
+  dspConfig.enableNoiseGate = true;
+  dspConfig.adaptiveNoiseGate = true;
+}
+if (options.hum !== undefined) {
+  if (!HUM_FILTER_MODES.includes(options.hum)) {
+    console.error(`Error: unknown hum filter "${options.hum}" (use ${HUM_FILTER_MODES.join(", ")})`);
+    process.exit(1);
+  }
+  dspConfig.humFilter = options.hum as HumFilterMode;
+}
+if (options.filter !== undefined) {
+  try {
+    dspConfig.filterChain = parseFilterChain(String(options.filter));
+  } catch (e: any) {
+    console.error(`Error: --filter: ${e?.message || e}`);
+    process.exit(1);
+  }
+}
+if (dspConfig.minFrequency && dspConfig.maxFrequency && dspConfig.maxFrequency <= dspConfig.minFrequency) {
+  console.error(`Error: frequency range ${dspConfig.minFrequency}–${dspConfig.maxFrequency} Hz is empty`);
+  process.exit(1);
+}
+const configIssues = validateDSPConfig(dspConfig);
+if (configIssues.length) {
+  console.error(`Error: invalid DSP settings after command-line options:\n  - ${configIssues.join("\n  - ")}`);
+  process.exit(1);
+}
+
+if (options.filterResponse !== undefined) {
+  const points = options.filterResponse === true ? 24 : parseInt(options.filterResponse, 10);
+  if (!Number.isInteger(points) || points < 2) {
+    console.error(`Error: --filter-response needs at least 2 points (got "${options.filterResponse}")`);
+    process.exit(1);
+  }
+  printFilterResponse(points);
+  process.exit(0);
+}
+
+const channel: ChannelSelection = options.channel === "mix" ? "mix" : Number(options.channel);
+if (channel !== "mix" && !(Number.isInteger(channel) && channel >= 0)) {
+  console.error(`Error: --channel must be a channel index or "mix" (got "${options.channel}")`);
+  process.exit(1);
+}
+
+const detector = String(options.detector) as PitchDetectorKind;
+if (detector !== "yin" && detector !== "pyin") {
+  console.error(`Error: unknown detector "${options.detector}" (use yin or pyin)`);
+  process.exit(1);
+}
+
+// Contour mode: `--contour` alone means CSV
+const contourFormat: ContourFormat | null =
+  options.contour === undefined ? null : options.contour === true ? "csv" : options.contour;
+if (contourFormat && !CONTOUR_FORMATS.includes(contourFormat)) {
+  console.error(`Error: unknown contour format "${contourFormat}" (use ${CONTOUR_FORMATS.join(", ")})`);
+  process.exit(1);
+}
+const jobs = Number(options.jobs);
+if (!Number.isInteger(jobs) || jobs < 1) {
+  console.error(`Error: --jobs must be a positive integer (got "${options.jobs}")`);
+  process.exit(1);
+}
+const tolerance = options.tolerance === undefined ? undefined : Number(options.tolerance);
+if (tolerance !== undefined && !(Number.isFinite(tolerance) && tolerance >= 0)) {
+  console.error(`Error: --tolerance must be a number of cents (got "${options.tolerance}")`);
+  process.exit(1);
+}
+if (tolerance !== undefined && options.expected !== undefined && parseExpectedNote(options.expected, tuning) === null) {
+  console.error(`Error: --tolerance needs a valid --expected note (got "${options.expected}")`);
+  process.exit(1);
+}
+// Region: --start / --end in seconds, attack skipped after the start
+const region: RegionOptions = {};
+for (const key of ["start", "end"] as const) {
+  if (options[key] === undefined) continue;
+  const seconds = Number(options[key]);
+  if (!Number.isFinite(seconds) || seconds < 0) {
+    console.error(`Error: --${key} must be a time in seconds (got "${options[key]}")`);
+    process.exit(1);
+  }
+  region[key] = seconds;
+}
+if (region.start !== undefined && region.end !== undefined && region.end <= region.start) {
+  console.error(`Error: --end (${region.end} s) must be after --start (${region.start} s)`);
+  process.exit(1);
+}
+const attackSkip: AttackSkip | null | undefined =
+  options.attackSkip === undefined ? undefined : parseAttackSkip(String(options.attackSkip));
+if (attackSkip === null) {
+  console.error(`Error: --attack-skip must be seconds or "auto" (got "${options.attackSkip}")`);
+  process.exit(1);
+}
+region.attackSkip = attackSkip;
+const reportFormat = (options.reportFormat ??
+  (options.report && path.extname(options.report).toLowerCase() === ".json" ? "json" : "csv")) as ReportFormat;
+if (!REPORT_FORMATS.includes(reportFormat)) {
+  console.error(`Error: unknown report format "${options.reportFormat}" (use ${REPORT_FORMATS.join(", ")})`);
+  process.exit(1);
+}
+if (batchMode) {
+  const perFileOnly = [
+    ["contour", "--contour"],
+    ["output", "--output"],
+    ["midi", "--midi"],
+    ["notes", "--notes"],
+    ["poly", "--poly"],
+  ] as const;
+  for (const [option, flag] of perFileOnly) {
+    if (options[option] !== undefined) {
+      console.error(`Error: ${flag} works on a single file, not in batch mode`);
+      process.exit(1);
+    }
+  }
 }
 
-  // Skip initial transient attack (0.3 sec)
-  const attackSkip = Math.floor(sampleRate * 0.3);
-  audio = audio.slice(attackSkip);
+const settings: AnalysisSettings = {
+  dspConfig,
+  tuning,
+  detector,
+  channel,
+  expected: options.expected,
+  tolerance,
+  region,
+  noiseRegion,
+};
 
-  // Frame scanning
-  const frameSize = defaultDSPConfig.frameSize;
-  let bestFrame: any = null;
+// When the contour goes to stdout, keep it clean: status lines go to stderr
+// and the best-frame summary is skipped
+const contourToStdout = contourFormat !== null && !options.output;
+const info = contourToStdout ? console.error : console.log;
 
-  for (let i = 0; i < audio.length - frameSize; i += frameSize) {
-    const frame = audio.slice(i, i + frameSize);
-    const result = engine.processFrame(new Float32Array(frame), {
-      expectedNote: options.expected,
-      smoothing: true,
-    });
+// Load WAV file
+(async () => {
+  if (batchMode) {
+    process.exit(await runBatchMode());
+  }
+
+  let prepared: PreparedAudio;
+  try {
+    prepared = prepareAudio(fs.readFileSync(filePath), dspConfig, channel, region, noiseRegion);
+  } catch (e: any) {
+    console.error(`Error: ${filePath}: ${e?.message || e}`);
+    process.exit(1);
+  }
+  const { decoded, audio, sampleRate } = prepared;
+  const analyzed = describeRegion(prepared);
+  const configuredFrameSize = dspConfig.frameSize;
+  dspConfig = prepared.dspConfig;
 
+  info(`Analyzing: ${filePath}`);
+  info(
+    `Sample Rate: ${decoded.sampleRate} Hz | ${decoded.numberOfChannels} ch, ${decoded.bitDepth}-bit ${decoded.encoding}` +
+      ` | Channel: ${channel}` +
+      (sampleRate !== decoded.sampleRate ? ` | Analysis rate: ${sampleRate} Hz` : "")
+  );
+  info(`DSP config: ${configSources.length ? configSources.join(" + ") : "defaults"}`);
+  info(
+    `Region: ${analyzed.start.toFixed(2)}–${analyzed.end.toFixed(2)} s` +
+      ` | Attack skip: ${analyzed.attackSkip.toFixed(2)} s` +
+      (analyzed.attack !== undefined
+        ? analyzed.attack
+          ? ` (auto: onset ${analyzed.attack.onset.toFixed(2)} s, peak ${analyzed.attack.peak.toFixed(2)} s)`
+          : " (auto: no onset found)"
+        : "")
+  );
+  const noise = describeNoise(prepared);
+  if (noise.reduction !== "off" || noise.adaptiveGate) {
+    info(
+      `Noise: ${noise.reduction === "off" ? "no reduction" : noise.reduction}` +
+        (noise.profile ? ` | profile ${noise.profile.start}–${noise.profile.end} s, RMS ${noise.profile.rms.toFixed(4)}` : "") +
+        (noise.adaptiveGate ? ` | adaptive gate +${dspConfig.noiseGateMarginDb ?? 6} dB` : "")
+    );
+  }
+  const hum = describeHum(prepared);
+  if (hum.mode !== "off") {
+    info(
+      `Hum: ` +
+        (hum.frequency === null
+          ? "none detected"
+          : `${hum.frequency} Hz` +
+            (hum.prominenceDb !== undefined
+              ? ` detected (+${hum.prominenceDb} dB over neighbouring bands, ${hum.levelDb} dB re signal)`
+              : "") +
+            ` | ${hum.notches} ${dspConfig.humCutDb ? `-${dspConfig.humCutDb} dB cuts` : "notches"}, Q ${dspConfig.humNotchQ ?? 30}`)
+    );
+  }
+  if (dspConfig.minFrequency || dspConfig.maxFrequency) {
+    info(`F0 range: ${dspConfig.minFrequency || "frame limit"} – ${dspConfig.maxFrequency || "∞"} Hz`);
+  }
+  if (dspConfig.frameSize !== configuredFrameSize) {
+    info(
+      `Frame size raised from ${configuredFrameSize} to ${dspConfig.frameSize} samples ` +
+        `to reach ${dspConfig.minFrequency} Hz`
+    );
+  }
+
+  // Frame scanning (pYIN results are rewritten from the decoded Viterbi path)
+  const frameSize = dspConfig.frameSize;
+  const hopSize = resolveHopSize(dspConfig);
+  // Asserted, not annotated: TS doesn't see the assignment in the callback and would narrow to null
+  let bestFrame = null as (PitchResult & { frequency: number }) | null;
+  const frames = analyzeFrames(prepared, settings, ({ result }, start) => {
     if (options.verbose) {
-      console.log(
-        `Frame ${i}: ${result.frequency?.toFixed(2) || "null"} Hz | Conf=${result.confidence.toFixed(2)}`
+      info(
+        `Frame ${start}: ${result.frequency?.toFixed(2) || "null"} Hz | Conf=${result.confidence.toFixed(2)} | ` +
+          (result.voiced ? "voiced" : `unvoiced (${result.unvoicedReason})`)
       );
     }
 
-    // Track best candidate
+    // Track best candidate among voiced frames
     if (
+      result.voiced &&
       result.frequency !== null &&
       (!bestFrame || result.confidence > bestFrame.confidence)
     ) {
-      bestFrame = result;
+      bestFrame = { ...result, frequency: result.frequency };
     }
+  });
+
+  // Chord: multi-pitch pass on longer frames (≥ 150 ms) to separate close partials
+  let chord: ChordNote[] = [];
+  if (options.poly) {
+    const polyEngine = new PitchEngine(sampleRate, dspConfig, { noiseProfile: prepared.noiseProfile });
+    const polyFrameSize = Math.max(frameSize, nextPowerOfTwo(Math.ceil(sampleRate * 0.15)));
+    const polyFrames = [];
+    for (const { hop, frame } of iterateFrames(audio, polyFrameSize, hopSize, sampleRate, prepared.region.start)) {
+      polyFrames.push(polyEngine.processFrameMulti(frame, { hop, tuning }));
+    }
+    chord = summarizeChord(polyFrames);
   }
 
-  if (!bestFrame) {
+  const contour: ContourPoint[] = contourFormat
+    ? frames.map(({ time, result }) => toContourPoint(result, time, tuning))
+    : [];
+  const notes: NoteEvent[] = options.notes || options.midi ? segmentNotes(frames, { tuning }) : [];
+  const intonation = computeIntonationStats(frames, { expectedNote: options.expected, tuning, tolerance });
+
+  if (options.midi) {
+    const midi = encodeMidi(notes, { pitchBend: !!options.midiBend, trackName: filePath });
+    fs.writeFileSync(options.midi, midi);
+    info(`MIDI (${notes.length} notes) written to ${options.midi}`);
+  }
+
+  // --tolerance: 0 in tune, 2 out of tune, 3 no pitch to check (1 is left to usage/file errors)
+  const verdict = tolerance !== undefined ? judgeTuning(bestFrame, tolerance) : null;
+  const exitCode = verdict === null ? 0 : verdict.cents === null ? 3 : verdict.inTune ? 0 : 2;
+
+  if (contourFormat) {
+    const text = formatContour(contour, contourFormat);
+    if (contourToStdout) {
+      process.stdout.write(text);
+      process.exit(exitCode);
+    }
+    fs.writeFileSync(options.output, text);
+    info(`Contour (${contour.length} frames, ${contourFormat}) written to ${options.output}`);
+  }
+
+  // A chord has no single stable pitch; --poly still reports it
+  if (!bestFrame && !options.poly) {
     console.log("No stable pitch detected.");
-    process.exit(0);
+    process.exit(exitCode);
   }
 
   // Output result
   if (options.json) {
-    console.log(JSON.stringify(bestFrame, null, 2));
+    const report = {
+      ...bestFrame,
+      ...(verdict ? { tolerance, centsDeviation: verdict.cents, inTune: verdict.inTune } : {}),
+      region: analyzed,
+      ...(noise.reduction !== "off" || noise.adaptiveGate ? { noise } : {}),
+      ...(hum.mode !== "off" ? { hum } : {}),
+      intonation,
+      ...(options.notes ? { notes } : {}),
+      ...(options.poly ? { chord } : {}),
+    };
+    console.log(JSON.stringify(report, null, 2));
   } else {
-    console.log(`\n✅ Best Stable Pitch Found`);
-    console.log(`Detected Pitch: ${bestFrame.frequency.toFixed(2)} Hz`);
-    if (bestFrame.note) console.log(`Note: ${bestFrame.note}`);
-    if (bestFrame.deviation) console.log(`Deviation: ${bestFrame.deviation}`);
-    console.log(`Confidence: ${(bestFrame.confidence * 100).toFixed(1)}%`);
+    if (bestFrame) {
+      console.log(`\n✅ Best Stable Pitch Found`);
+      console.log(`Detected Pitch: ${bestFrame.frequency.toFixed(2)} Hz`);
+      if (bestFrame.note) console.log(`Note: ${bestFrame.note}`);
+      if (bestFrame.deviation) console.log(`Deviation: ${bestFrame.deviation}`);
+      console.log(`Confidence: ${(bestFrame.confidence * 100).toFixed(1)}%`);
+    } else {
+      console.log("No stable pitch detected.");
+    }
+    if (verdict && verdict.cents !== null) {
+      const cents = `${verdict.cents >= 0 ? "+" : ""}${verdict.cents.toFixed(1)} cents from ${verdict.target}`;
+      console.log(
+        verdict.inTune
+          ? `✅ In tune: ${cents} (±${tolerance} allowed)`
+          : `❌ Out of tune: ${cents} (±${tolerance} allowed)`
+      );
+    }
+    if (intonation.voicedFrames > 0) printIntonation(intonation);
+    if (options.notes) printNotes(notes);
+    if (options.poly) printChord(chord);
   }
+  process.exit(exitCode);
 })();
+
+/**
+ * Analyzed span in seconds from the file start: `start` is after the attack
+ * skip; attack times are from the region start (auto only)
+ */
+function describeRegion(prepared: PreparedAudio) {
+  const { region, sampleRate } = prepared;
+  const seconds = (samples: number) => Math.round((samples / sampleRate) * 1000) / 1000;
+  return {
+    start: seconds(region.start),
+    end: seconds(region.end),
+    attackSkip: seconds(region.attackSkip),
+    ...(region.attack !== undefined ? { attack: region.attack } : {}),
+  };
+}
+
+/**
+ * Noise settings for the status line and JSON: method, adaptive gate and the
+ * profiled span (seconds from the file start) with its RMS
+ */
+function describeNoise(prepared: PreparedAudio) {
+  const { dspConfig: config, noiseProfile } = prepared;
+  return {
+    reduction: config.noiseReduction ?? "off",
+    adaptiveGate: !!(config.enableNoiseGate && config.adaptiveNoiseGate),
+    ...(noiseRegion && noiseProfile
+      ? { profile: { start: noiseRegion.start, end: noiseRegion.end, rms: Math.round(noiseProfile.rms * 1e5) / 1e5 } }
+      : {}),
+  };
+}
+
+/**
+ * Hum notch settings for the status line and JSON: mode, notched frequency
+ * (null when "auto" found none), notch count and, for "auto", the detection
+ */
+function describeHum(prepared: PreparedAudio) {
+  const { dspConfig: config, hum, sampleRate } = prepared;
+  const frequency = humFrequencyFor(config.humFilter ?? "off");
+  const notches = frequency
+    ? createHumFilters(frequency, sampleRate, config.humHarmonics, config.humNotchQ, config.humCutDb).length
+    : 0;
+  return {
+    mode: hum !== undefined ? "auto" : config.humFilter ?? "off",
+    frequency,
+    notches,
+    ...(hum
+      ? { prominenceDb: Math.round(hum.prominenceDb * 10) / 10, levelDb: Math.round(hum.levelDb * 10) / 10 }
+      : {}),
+  };
+}
+
+/**
+ * --filter-response: the filters' gain from 20 Hz to Nyquist at the analysis
+ * rate (44100 Hz unless --rate / analysisSampleRate sets one). humFilter
+ * "auto" needs audio to detect from, so it shows no notches here.
+ */
+function printFilterResponse(points: number) {
+  const sampleRate = dspConfig.analysisSampleRate || 44100;
+  const response = filterResponse(dspConfig, sampleRate, logFrequencies(20, sampleRate / 2, points));
+  if (options.json) {
+    console.log(JSON.stringify({ sampleRate, filterChain: dspConfig.filterChain ?? [], response }, null, 2));
+    return;
+  }
+  const hum = humFrequencyFor(dspConfig.humFilter ?? "off");
+  console.log(`Filter response at ${sampleRate} Hz (DSP config: ${configSources.length ? configSources.join(" + ") : "defaults"})`);
+  console.log(
+    `High-pass: ${dspConfig.highPassCutoff > 0 ? `${dspConfig.highPassCutoff} Hz` : "off"}` +
+      ` | Low-pass: ${dspConfig.lowPassCutoff > 0 ? `${dspConfig.lowPassCutoff} Hz` : "off"}` +
+      ` | Hum: ${hum ? `${hum} Hz` : dspConfig.humFilter === "auto" ? "auto (not applied without audio)" : "off"}`
+  );
+  console.log(`Chain: ${dspConfig.filterChain?.length ? formatFilterChain(dspConfig.filterChain) : "none"}`);
+  console.log(`\n${"Hz".padStart(9)}  ${"dB".padStart(7)}  ${"phase".padStart(6)}`);
+  for (const { frequency, magnitudeDb, phase } of response) {
+    const db = Number.isFinite(magnitudeDb) ? magnitudeDb.toFixed(1) : "-inf";
+    console.log(`${frequency.toFixed(1).padStart(9)}  ${db.padStart(7)}  ${`${phase.toFixed(0)}°`.padStart(6)}`);
+  }
+}
+
+/**
+ * Pass/fail for --tolerance on the best frame: the engine's verdict against the
+ * expected note, or the deviation from the nearest note without -e
+ */
+function judgeTuning(
+  best: PitchResult | null,
+  toleranceCents: number
+): { cents: number | null; inTune: boolean; target: string | null } {
+  if (!best || best.frequency === null) return { cents: null, inTune: false, target: null };
+  if (best.centsDeviation !== undefined && best.inTune !== undefined) {
+    return { cents: best.centsDeviation, inTune: best.inTune, target: best.expectedNote ?? null };
+  }
+  const noteHz = best.note ? parseExpectedNote(best.note, tuning) : null;
+  if (!noteHz) return { cents: null, inTune: false, target: null };
+  const cents = Math.round(centsOffFromReference(best.frequency, noteHz) * 10) / 10;
+  return { cents, inTune: Math.abs(cents) <= toleranceCents, target: best.note ?? null };
+}
+
+/**
+ * Batch: analyze every file, print the summary (or JSON with --json), write
+ * the --report file and return the exit code (see batchExitCode)
+ */
+async function runBatchMode(): Promise<number> {
+  const showProgress = !options.json && process.stderr.isTTY;
+  const results = await runBatch(files, settings, {
+    jobs,
+    toleranceCents: tolerance,
+    onResult: (r, done) => {
+      if (showProgress) process.stderr.write(`\r[${done}/${files.length}] ${r.file}\x1b[K`);
+    },
+  });
+  if (showProgress) process.stderr.write("\r\x1b[K");
+
+  if (options.report) {
+    fs.writeFileSync(options.report, formatReport(results, reportFormat, tolerance));
+  }
+  if (options.json) {
+    process.stdout.write(formatReport(results, "json", tolerance));
+  } else {
+    printBatch(results);
+    if (options.report) console.log(`Report (${reportFormat}) written to ${options.report}`);
+  }
+  return batchExitCode(results);
+}
+
+function printBatch(results: BatchResult[]) {
+  const icons = { ok: "✅", "out-of-tolerance": "⚠️ ", "no-pitch": "❌", error: "❌" };
+  const width = Math.min(60, Math.max(...results.map((r) => r.file.length)));
+  console.log(`\n📁 Batch Summary (${results.length} files${tolerance !== undefined ? `, tolerance ±${tolerance} cents` : ""})`);
+  for (const r of results) {
+    const s = r.summary;
+    const detail = s && s.frequency !== null && s.cents !== null
+      ? `${s.note!.padEnd(4)} ${s.frequency.toFixed(2).padStart(8)} Hz  ` +
+        `${`${s.cents >= 0 ? "+" : ""}${s.cents.toFixed(1)}`.padStart(6)} cents  conf ${(s.confidence * 100).toFixed(1)}%`
+      : r.status;
+    console.log(`${icons[r.status]} ${r.file.padEnd(width)}  ${detail}`);
+  }
+
+  const failures = results.filter((r) => r.status !== "ok");
+  if (failures.length) {
+    console.log(`\n❗ Failures (${failures.length})`);
+    for (const r of failures) {
+      const why = r.status === "error"
+        ? r.error
+        : r.status === "no-pitch"
+          ? "no voiced frames"
+          : `${r.summary!.cents! >= 0 ? "+" : ""}${r.summary!.cents!.toFixed(1)} cents from ${r.summary!.expected ?? r.summary!.note}`;
+      console.log(`${r.file}: ${r.status} (${why})`);
+    }
+  }
+
+  const counts = countStatuses(results);
+  console.log(
+    `\nTotal ${counts.total}: ${counts.ok} ok, ${counts["out-of-tolerance"]} out of tolerance, ` +
+      `${counts["no-pitch"]} no pitch, ${counts.error} errors`
+  );
+}
+
+function printIntonation(stats: IntonationStats) {
+  const signed = (cents: number) => `${cents >= 0 ? "+" : ""}${cents.toFixed(1)}`;
+  console.log(`\n🎤 Intonation (${stats.voicedDuration.toFixed(2)} s voiced, vs ${stats.target})`);
+  console.log(`Pitch: mean ${stats.meanFrequency!.toFixed(2)} Hz, median ${stats.medianFrequency!.toFixed(2)} Hz`);
+  console.log(
+    `Deviation: mean ${signed(stats.meanCents!)} cents, median ${signed(stats.medianCents!)} cents, ` +
+      `std dev ${stats.stdDevCents!.toFixed(1)} cents`
+  );
+  console.log(`Drift: ${signed(stats.driftCentsPerSecond!)} cents/s`);
+  console.log(`Within ±${stats.tolerance} cents: ${(stats.inTolerance! * 100).toFixed(0)}% of voiced time`);
+  console.log(
+    stats.vibrato
+      ? `Vibrato: ${stats.vibrato.rate.toFixed(2)} Hz, ±${stats.vibrato.extent.toFixed(1)} cents (${stats.vibrato.cycles} cycles)`
+      : "Vibrato: none detected"
+  );
+}
+
+function printNotes(notes: NoteEvent[]) {
+  console.log(`\n🎼 Detected Notes (${notes.length})`);
+  for (const n of notes) {
+    const cents = `${n.cents >= 0 ? "+" : ""}${n.cents.toFixed(1)}`;
+    console.log(
+      `${n.onset.toFixed(3)}s – ${n.offset.toFixed(3)}s  ${n.note.padEnd(4)} ${n.frequency
+        .toFixed(2)
+        .padStart(8)} Hz  ${cents.padStart(6)} cents  stability ${(n.stability * 100).toFixed(0)}%`
+    );
+  }
+}
+
+function printChord(chord: ChordNote[]) {
+  console.log(`\n🎸 Chord (${chord.length} notes)`);
+  for (const c of chord) {
+    const cents = `${c.cents >= 0 ? "+" : ""}${c.cents.toFixed(1)}`;
+    console.log(
+      `${c.note.padEnd(4)} ${c.frequency.toFixed(2).padStart(8)} Hz  ${cents.padStart(6)} cents  ` +
+        `salience ${c.salience.toFixed(2)}  present ${(c.presence * 100).toFixed(0)}%`
+    );
+  }
+}
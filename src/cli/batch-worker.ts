@@ -0,0 +1,19 @@
+// cli/batch-worker.ts
+// Worker thread for batch mode: analyzes one file per message (see batch.ts)
+
+import { parentPort, workerData } from "worker_threads";
+import { summarizeFile } from "./analyze-file";
+import type { AnalysisSettings } from "./analyze-file";
+import type { BatchJob, BatchJobResult } from "./batch";
+
+const settings = workerData as AnalysisSettings;
+
+parentPort?.on("message", ({ id, file }: BatchJob) => {
+  let reply: BatchJobResult;
+  try {
+    reply = { id, summary: summarizeFile(file, settings) };
+  } catch (e: any) {
+    reply = { id, error: e?.message || String(e) };
+  }
+  parentPort!.postMessage(reply);
+});
@@ -0,0 +1,306 @@
+// cli/batch.ts
+// Batch mode: expand files / directories / globs, analyze them (optionally in
+// worker threads) and build one summary report (CSV / JSON)
+
+import fs from "fs";
+import path from "path";
+import { Worker } from "worker_threads";
+import { summarizeFile } from "./analyze-file";
+import type { AnalysisSettings, FileSummary } from "./analyze-file";
+
+export type FileStatus = "ok" | "out-of-tolerance" | "no-pitch" | "error";
+
+export interface BatchResult {
+  file: string;
+  status: FileStatus;
+  /** Null when the file could not be analyzed */
+  summary: FileSummary | null;
+  error?: string;
+}
+
+export type ReportFormat = "csv" | "json";
+export const REPORT_FORMATS: ReportFormat[] = ["csv", "json"];
+
+/** Main thread → worker */
+export interface BatchJob {
+  id: number;
+  file: string;
+}
+
+/** Worker → main thread */
+export type BatchJobResult =
+  | { id: number; summary: FileSummary }
+  | { id: number; error: string };
+
+const GLOB_CHARS = /[*?[{]/;
+
+/**
+ * Expand CLI inputs into WAV paths, keeping the order of the inputs
+ * - directory: every .wav below it (recursive)
+ * - glob (*, **, ?, [abc], {a,b}): matching files below the pattern's fixed prefix;
+ *   patterns without a match are reported in `unmatched`
+ * - anything else: taken as a file path as-is (missing files fail at analysis)
+ */
+export function expandInputs(inputs: string[]): { files: string[]; unmatched: string[] } {
+  const files: string[] = [];
+  const unmatched: string[] = [];
+  const seen = new Set<string>();
+  const add = (file: string) => {
+    const key = path.resolve(file);
+    if (!seen.has(key)) {
+      seen.add(key);
+      files.push(file);
+    }
+  };
+
+  for (const input of inputs) {
+    if (fs.existsSync(input) && fs.statSync(input).isDirectory()) {
+      walk(input).filter(isWav).forEach(add);
+    } else if (GLOB_CHARS.test(input)) {
+      const pattern = input.replace(/\\/g, "/").replace(/^(\.\/)+/, "");
+      const regex = globToRegExp(pattern);
+      const matches = walk(globBase(pattern)).filter((f) => regex.test(f.replace(/\\/g, "/")));
+      if (matches.length === 0) unmatched.push(input);
+      matches.forEach(add);
+    } else {
+      add(input);
+    }
+  }
+  return { files, unmatched };
+}
+
+/** Leading path segments without glob characters ("." when the first one has some) */
+function globBase(pattern: string): string {
+  const segments = pattern.split("/");
+  const fixed: string[] = [];
+  for (const segment of segments.slice(0, -1)) {
+    if (GLOB_CHARS.test(segment)) break;
+    fixed.push(segment);
+  }
+  if (fixed.length === 0) return ".";
+  return fixed.join("/") || "/";
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let re = "";
+  for (let i = 0; i < pattern.length; i++) {
+    const c = pattern[i];
+    if (c === "*") {
+      if (pattern[i + 1] === "*") {
+        // "**/" matches zero or more directories, a trailing "**" anything
+        const slash = pattern[i + 2] === "/";
+        re += slash ? "(?:.*/)?" : ".*";
+        i += slash ? 2 : 1;
+      } else {
+        re += "[^/]*";
+      }
+    } else if (c === "?") {
+      re += "[^/]";
+    } else if (c === "[") {
+      const end = pattern.indexOf("]", i + 1);
+      if (end === -1) {
+        re += "\\[";
+      } else {
+        re += `[${pattern.slice(i + 1, end).replace(/^!/, "^")}]`;
+        i = end;
+      }
+    } else if (c === "{") {
+      const end = pattern.indexOf("}", i + 1);
+      if (end === -1) {
+        re += "\\{";
+      } else {
+        re += `(?:${pattern.slice(i + 1, end).split(",").map(escapeRegExp).join("|")})`;
+        i = end;
+      }
+    } else {
+      re += escapeRegExp(c);
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Files below `dir`, sorted, as paths joined onto `dir` */
+function walk(dir: string): string[] {
+  if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) return [];
+  const out: string[] = [];
+  const entries = fs.readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name));
+  for (const entry of entries) {
+    const full = dir === "." ? entry.name : path.join(dir, entry.name);
+    if (entry.isDirectory()) out.push(...walk(full));
+    else if (entry.isFile()) out.push(full);
+  }
+  return out;
+}
+
+function isWav(file: string): boolean {
+  return path.extname(file).toLowerCase() === ".wav";
+}
+
+/**
+ * Status of an analyzed file: no voiced frame → no-pitch; |cents| above the
+ * tolerance → out-of-tolerance (no tolerance = never)
+ */
+export function judge(summary: FileSummary, toleranceCents?: number): FileStatus {
+  if (summary.frequency === null || summary.cents === null) return "no-pitch";
+  if (toleranceCents !== undefined && Math.abs(summary.cents) > toleranceCents) return "out-of-tolerance";
+  return "ok";
+}
+
+/**
+ * Analyze every file; `jobs` > 1 spreads them over that many worker threads.
+ * Results come back in input order; `onResult` fires as each file finishes.
+ * Per-file failures (missing, unreadable, undecodable) become "error" results.
+ */
+export async function runBatch(
+  files: string[],
+  settings: AnalysisSettings,
+  options: { jobs?: number; toleranceCents?: number; onResult?: (result: BatchResult, done: number) => void } = {}
+): Promise<BatchResult[]> {
+  const results: BatchResult[] = new Array(files.length);
+  let done = 0;
+  const finish = (id: number, outcome: { summary: FileSummary } | { error: string }) => {
+    results[id] = "summary" in outcome
+      ? { file: files[id], status: judge(outcome.summary, options.toleranceCents), summary: outcome.summary }
+      : { file: files[id], status: "error", summary: null, error: outcome.error };
+    done++;
+    options.onResult?.(results[id], done);
+  };
+
+  const jobs = Math.max(1, Math.min(options.jobs ?? 1, files.length));
+  if (jobs === 1) {
+    files.forEach((file, id) => {
+      try {
+        finish(id, { summary: summarizeFile(file, settings) });
+      } catch (e: any) {
+        finish(id, { error: e?.message || String(e) });
+      }
+    });
+    return results;
+  }
+
+  await new Promise<void>((resolve) => {
+    let next = 0;
+    let running = 0;
+
+    const startWorker = () => {
+      const worker = spawnWorker(settings);
+      let current: number | null = null;
+      running++;
+
+      const feed = () => {
+        if (next < files.length) {
+          current = next++;
+          const job: BatchJob = { id: current, file: files[current] };
+          worker.postMessage(job);
+        } else {
+          current = null;
+          worker.terminate();
+        }
+      };
+
+      worker.on("message", (msg: BatchJobResult) => {
+        finish(msg.id, "summary" in msg ? { summary: msg.summary } : { error: msg.error });
+        feed();
+      });
+      // A crashed worker fails its current file; a fresh worker takes over the queue
+      worker.on("error", (err) => {
+        if (current !== null) finish(current, { error: err.message });
+        current = null;
+      });
+      worker.on("exit", (code) => {
+        if (current !== null) finish(current, { error: `worker exited with code ${code}` });
+        current = null;
+        running--;
+        if (next < files.length) startWorker();
+        else if (running === 0) resolve();
+      });
+      feed();
+    };
+
+    for (let i = 0; i < jobs; i++) startWorker();
+  });
+  return results;
+}
+
+/**
+ * Worker entry next to the running script (batch-worker.js, or .ts under ts-node)
+ */
+function spawnWorker(settings: AnalysisSettings): Worker {
+  const script = process.argv[1] ?? "";
+  const ext = path.extname(script) === ".ts" ? ".ts" : ".js";
+  const entry = path.join(path.dirname(script), `batch-worker${ext}`);
+  return new Worker(entry, {
+    workerData: settings,
+    execArgv: ext === ".ts" ? ["--require", "ts-node/register"] : undefined,
+  });
+}
+
+/**
+ * Exit code for a batch run, as for a single file:
+ * 1 when a file failed to analyze, else 3 when a file had no pitch, else 2
+ * when a file was out of tolerance, else 0
+ */
+export function batchExitCode(results: BatchResult[]): number {
+  if (results.some((r) => r.status === "error")) return 1;
+  if (results.some((r) => r.status === "no-pitch")) return 3;
+  if (results.some((r) => r.status === "out-of-tolerance")) return 2;
+  return 0;
+}
+
+/**
+ * Serialize the report
+ * - csv:  one row per file (failures included, with status + error columns)
+ * - json: { tolerance, counts, files, failures }
+ */
+export function formatReport(results: BatchResult[], format: ReportFormat, toleranceCents?: number): string {
+  if (format === "csv") {
+    const header = "file,status,note,frequency,cents,expected,confidence,voiced_ratio,duration,sample_rate,error";
+    const rows = results.map((r) => {
+      const s = r.summary;
+      return [
+        r.file,
+        r.status,
+        s?.note ?? "",
+        s?.frequency ?? "",
+        s?.cents ?? "",
+        s?.expected ?? "",
+        s?.confidence ?? "",
+        s?.voicedRatio ?? "",
+        s?.duration ?? "",
+        s?.sampleRate ?? "",
+        r.error ?? "",
+      ].map(csvField).join(",");
+    });
+    return [header, ...rows].join("\n") + "\n";
+  }
+
+  const report = {
+    tolerance: toleranceCents ?? null,
+    counts: countStatuses(results),
+    files: results.filter((r) => r.summary).map((r) => ({ ...r.summary, status: r.status })),
+    failures: results
+      .filter((r) => r.status !== "ok")
+      .map((r) => ({
+        file: r.file,
+        status: r.status,
+        ...(r.summary ? { note: r.summary.note, cents: r.summary.cents } : {}),
+        ...(r.error ? { error: r.error } : {}),
+      })),
+  };
+  return JSON.stringify(report, null, 2) + "\n";
+}
+
+export function countStatuses(results: BatchResult[]): Record<FileStatus | "total", number> {
+  const counts = { total: results.length, ok: 0, "out-of-tolerance": 0, "no-pitch": 0, error: 0 };
+  for (const r of results) counts[r.status]++;
+  return counts;
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,94 @@
+// cli/benchmark-yin.ts
+// Benchmark harness: direct O(N²) vs FFT difference function in Yin.detectPitch
+
+import { Command } from "commander";
+import { Yin } from "../core/yin";
+import type { DifferenceMethod } from "../core/yin";
+
+const program = new Command();
+program
+  .name("yin-benchmark")
+  .description("Compare direct and FFT-based YIN difference functions across frame sizes")
+  .option("-s, --sizes <list>", "Comma-separated frame sizes", "1024,2048,4096,8192")
+  .option("-r, --sample-rate <hz>", "Sample rate of the synthetic signal", "44100")
+  .option("-f, --frequency <hz>", "Fundamental of the synthetic signal", "220")
+  .option("-i, --iterations <n>", "Frames timed per method and size", "20")
+  .option("--json", "Output raw JSON instead of a table")
+  .parse(process.argv);
+
+const options = program.opts();
+const sizes = String(options.sizes)
+  .split(",")
+  .map((s) => parseInt(s.trim(), 10))
+  .filter((n) => Number.isFinite(n) && n > 0);
+const sampleRate = Number(options.sampleRate);
+const frequency = Number(options.frequency);
+const iterations = Math.max(1, parseInt(options.iterations, 10) || 1);
+
+/**
+ * Harmonic-rich test tone with a little deterministic noise
+ */
+function makeFrame(size: number): Float32Array {
+  const frame = new Float32Array(size);
+  let seed = 12345;
+  for (let i = 0; i < size; i++) {
+    const t = i / sampleRate;
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    const noise = (seed / 0x7fffffff - 0.5) * 0.02;
+    frame[i] =
+      0.6 * Math.sin(2 * Math.PI * frequency * t) +
+      0.3 * Math.sin(2 * Math.PI * 2 * frequency * t) +
+      0.1 * Math.sin(2 * Math.PI * 3 * frequency * t) +
+      noise;
+  }
+  return frame;
+}
+
+function timeMethod(method: DifferenceMethod, frame: Float32Array) {
+  const yin = new Yin({ sampleRate, differenceMethod: method });
+  yin.detectPitch(frame); // warm-up
+  const start = process.hrtime.bigint();
+  let result = yin.detectPitch(frame);
+  for (let i = 1; i < iterations; i++) {
+    result = yin.detectPitch(frame);
+  }
+  const elapsedMs = Number(process.hrtime.bigint() - start) / 1e6;
+  return { msPerFrame: elapsedMs / iterations, result };
+}
+
+const rows = sizes.map((size) => {
+  const frame = makeFrame(size);
+  const direct = timeMethod("direct", frame);
+  const fast = timeMethod("fft", frame);
+  const pitchDiff =
+    direct.result.pitch !== null && fast.result.pitch !== null
+      ? Math.abs(direct.result.pitch - fast.result.pitch)
+      : null;
+  return {
+    frameSize: size,
+    directMs: direct.msPerFrame,
+    fftMs: fast.msPerFrame,
+    speedup: direct.msPerFrame / fast.msPerFrame,
+    directPitch: direct.result.pitch,
+    fftPitch: fast.result.pitch,
+    pitchDiff,
+    probabilityDiff: Math.abs(direct.result.probability - fast.result.probability),
+  };
+});
+
+if (options.json) {
+  console.log(JSON.stringify({ sampleRate, frequency, iterations, rows }, null, 2));
+} else {
+  console.log(`YIN difference benchmark @ ${sampleRate} Hz, ${frequency} Hz tone, ${iterations} iterations`);
+  console.log("frame   direct ms   fft ms   speedup   |Δpitch| Hz   |Δprob|");
+  for (const r of rows) {
+    console.log(
+      `${String(r.frameSize).padEnd(7)} ${r.directMs.toFixed(3).padStart(9)} ${r.fftMs
+        .toFixed(3)
+        .padStart(8)} ${`${r.speedup.toFixed(1)}x`.padStart(9)} ${(r.pitchDiff === null
+        ? "n/a"
+        : r.pitchDiff.toExponential(2)
+      ).padStart(13)} ${r.probabilityDiff.toExponential(2).padStart(9)}`
+    );
+  }
+}
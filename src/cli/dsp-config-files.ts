@@ -0,0 +1,137 @@
+// cli/dsp-config-files.ts
+// DSP config for the CLI: embedded defaults ← dsp-config.json (or --config) ←
+// --preset, with presets looked up in a preset directory before the built-ins
+
+import fs from "fs";
+import path from "path";
+import { defaultDSPConfig } from "../core/dsp/dsp-config";
+import type { DSPConfig } from "../core/dsp/dsp-config";
+import { assertValidDSPConfig, parseDSPConfigFile } from "../core/dsp/config-schema";
+import type { DSPConfigFile } from "../core/dsp/config-schema";
+import { BUILTIN_PRESETS, resolveConfigFile } from "../core/dsp/presets";
+import type { PresetLookup } from "../core/dsp/presets";
+
+/** Project config picked up from the working directory when --config isn't given */
+export const PROJECT_CONFIG_FILE = "dsp-config.json";
+/** User presets: <name>.json in this directory (relative to the working directory) */
+export const DEFAULT_PRESET_DIR = "presets";
+
+export interface ConfigSelection {
+  /** Config file replacing ./dsp-config.json */
+  configPath?: string;
+  /** Preset name (file in presetDir, else built in) */
+  preset?: string;
+  presetDir?: string;
+}
+
+export interface ResolvedConfig {
+  config: DSPConfig;
+  /** Layers applied over the defaults, in order (for the status line) */
+  sources: string[];
+  /** Migration notes, prefixed with their file */
+  warnings: string[];
+}
+
+export interface PresetInfo {
+  name: string;
+  description: string;
+  /** "built-in" or the preset file path */
+  source: string;
+}
+
+/**
+ * Read and migrate one config file
+ * @throws Error when the file is missing, isn't JSON or fails validation
+ */
+export function readConfigFile(filePath: string): { file: DSPConfigFile; warnings: string[] } {
+  if (!fs.existsSync(filePath)) throw new Error(`DSP config not found: ${filePath}`);
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (e: any) {
+    throw new Error(`${filePath} is not valid JSON: ${e?.message || e}`);
+  }
+  return parseDSPConfigFile(raw, filePath);
+}
+
+/**
+ * Build the CLI's DSP config from the selection
+ * @throws Error for missing / invalid files, unknown presets and extends cycles
+ */
+export function resolveCliConfig(selection: ConfigSelection): ResolvedConfig {
+  const presetDir = selection.presetDir ?? DEFAULT_PRESET_DIR;
+  const warnings: string[] = [];
+  const lookup = presetLookup(presetDir, warnings);
+  const sources: string[] = [];
+  let config: DSPConfig = { ...defaultDSPConfig };
+
+  const basePath = selection.configPath ?? (fs.existsSync(PROJECT_CONFIG_FILE) ? PROJECT_CONFIG_FILE : null);
+  if (basePath) {
+    const { file, warnings: fileWarnings } = readConfigFile(basePath);
+    warnings.push(...fileWarnings.map((w) => `${basePath}: ${w}`));
+    config = { ...config, ...resolveConfigFile(file, lookup, basePath) };
+    sources.push(basePath);
+  }
+
+  if (selection.preset !== undefined) {
+    const preset = lookup(selection.preset);
+    if (!preset) {
+      const names = listPresets(presetDir).map((p) => p.name);
+      throw new Error(`Unknown preset "${selection.preset}" (available: ${names.join(", ")})`);
+    }
+    config = { ...config, ...resolveConfigFile(preset, lookup, `preset "${selection.preset}"`) };
+    sources.push(`preset ${selection.preset}`);
+  }
+
+  // Each layer is valid on its own; check the combination (e.g. hopSize vs frameSize)
+  assertValidDSPConfig(config, sources.length ? sources.join(" + ") : "defaults");
+  return { config, sources, warnings };
+}
+
+/**
+ * Built-in presets and the .json files in presetDir (a file overrides the
+ * built-in preset of the same name)
+ */
+export function listPresets(presetDir: string = DEFAULT_PRESET_DIR): PresetInfo[] {
+  const presets = new Map<string, PresetInfo>();
+  for (const [name, preset] of Object.entries(BUILTIN_PRESETS)) {
+    presets.set(name, { name, description: preset.description ?? "", source: "built-in" });
+  }
+  for (const filePath of presetFiles(presetDir)) {
+    const name = path.basename(filePath, ".json");
+    let description = "";
+    try {
+      description = readConfigFile(filePath).file.description ?? "";
+    } catch (e: any) {
+      description = `(invalid: ${String(e?.message || e).split("\n")[0]})`;
+    }
+    presets.set(name, { name, description, source: filePath });
+  }
+  return [...presets.values()];
+}
+
+/** Preset by name: <presetDir>/<name>.json first, then the built-ins */
+function presetLookup(presetDir: string, warnings: string[]): PresetLookup {
+  const cache = new Map<string, DSPConfigFile | null>();
+  return (name) => {
+    if (cache.has(name)) return cache.get(name)!;
+    const filePath = path.join(presetDir, `${name}.json`);
+    let preset: DSPConfigFile | null = BUILTIN_PRESETS[name] ?? null;
+    if (fs.existsSync(filePath)) {
+      const { file, warnings: fileWarnings } = readConfigFile(filePath);
+      warnings.push(...fileWarnings.map((w) => `${filePath}: ${w}`));
+      preset = { ...file, name: file.name ?? name };
+    }
+    cache.set(name, preset);
+    return preset;
+  };
+}
+
+function presetFiles(presetDir: string): string[] {
+  if (!fs.existsSync(presetDir) || !fs.statSync(presetDir).isDirectory()) return [];
+  return fs
+    .readdirSync(presetDir)
+    .filter((f) => path.extname(f).toLowerCase() === ".json")
+    .sort()
+    .map((f) => path.join(presetDir, f));
+}
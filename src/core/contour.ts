@@ -0,0 +1,76 @@
+// core/contour.ts
+// Pitch contour: one row per analyzed frame, serializable as CSV / JSON Lines / JSON
+
+import type { PitchResult } from "./pitch-engine.js";
+import { centsOffFromReference, parseExpectedNote } from "./note-utils.js";
+import type { TuningConfig } from "./note-utils.js";
+
+export type ContourFormat = "csv" | "jsonl" | "json";
+export const CONTOUR_FORMATS: ContourFormat[] = ["csv", "jsonl", "json"];
+
+export interface ContourPoint {
+  /** Frame centre in seconds from the start of the audio */
+  time: number;
+  /** Detected (smoothed) frequency in Hz, null when no pitch was found */
+  frequency: number | null;
+  /** Nearest note in the active tuning */
+  note: string | null;
+  /** Deviation from that note in cents */
+  cents: number | null;
+  /** YIN probability 0–1 */
+  confidence: number;
+  /** Frame RMS after filters */
+  rms: number;
+  /** Engine voicing decision (PitchResult.voiced) */
+  voiced: boolean;
+}
+
+const round = (value: number, digits: number) => {
+  const f = Math.pow(10, digits);
+  return Math.round(value * f) / f;
+};
+
+/**
+ * Build a contour row from an engine result.
+ * Values are rounded to fixed precision so runs diff cleanly.
+ */
+export function toContourPoint(result: PitchResult, time: number, tuning?: TuningConfig): ContourPoint {
+  let cents: number | null = null;
+  if (result.frequency && result.note) {
+    const noteHz = parseExpectedNote(result.note, tuning);
+    if (noteHz) cents = round(centsOffFromReference(result.frequency, noteHz), 2);
+  }
+  return {
+    time: round(time, 4),
+    frequency: result.frequency !== null ? round(result.frequency, 3) : null,
+    note: result.note ?? null,
+    cents,
+    confidence: round(result.confidence, 4),
+    rms: round(result.frameRMS, 6),
+    voiced: result.voiced,
+  };
+}
+
+/**
+ * Serialize a contour
+ * - csv:   header + one line per frame (empty cells for missing values)
+ * - jsonl: one JSON object per line
+ * - json:  single-line JSON array
+ */
+export function formatContour(points: ContourPoint[], format: ContourFormat): string {
+  switch (format) {
+    case "csv": {
+      const header = "time,frequency,note,cents,confidence,rms,voiced";
+      const rows = points.map((p) =>
+        [p.time, p.frequency ?? "", p.note ?? "", p.cents ?? "", p.confidence, p.rms, p.voiced ? 1 : 0].join(",")
+      );
+      return [header, ...rows].join("\n") + "\n";
+    }
+    case "jsonl":
+      return points.map((p) => JSON.stringify(p)).join("\n") + (points.length ? "\n" : "");
+    case "json":
+      return JSON.stringify(points) + "\n";
+    default:
+      throw new Error(`Unknown contour format: ${format}`);
+  }
+}
@@ -0,0 +1,170 @@
+// core/dsp/attack.ts
+// Analysis region (start/end) and the attack skipped at its start: a fixed
+// number of seconds, or detected from the RMS envelope.
+
+import { calculateRMS } from "./rms.js";
+
+/** Longest attack the detector skips by default (seconds) */
+export const DEFAULT_ATTACK_SKIP_SECONDS = 0.3;
+
+/** Seconds to skip, or "auto" to detect the attack from the RMS envelope */
+export type AttackSkip = number | "auto";
+
+export interface AttackDetectionOptions {
+  /** RMS envelope window (default 0.01 s) */
+  windowSeconds?: number;
+  /** Onset = first window above this share of the envelope maximum (default 0.1, -20 dB) */
+  onsetRatio?: number;
+  /** Envelope below this RMS never counts as an onset (default 0.01, as voicingMinRMS) */
+  minRMS?: number;
+  /** A note already sounding at the start only counts as an attack if the envelope rises this much after it (default 2, +6 dB) */
+  riseRatio?: number;
+  /** Time allowed after the envelope peak for the transient to settle (default 0.05 s) */
+  settleSeconds?: number;
+  /** The attack never lasts longer than this after the onset (default DEFAULT_ATTACK_SKIP_SECONDS) */
+  maxSkipSeconds?: number;
+}
+
+/** Where the attack was found, in seconds from the start of the searched audio */
+export interface AttackInfo {
+  onset: number;
+  /** Envelope maximum within maxSkipSeconds of the onset */
+  peak: number;
+  /** End of the attack: peak + settleSeconds, at most onset + maxSkipSeconds (0 when the audio starts mid-note) */
+  end: number;
+}
+
+export interface RegionOptions {
+  /** Region start in seconds (default 0) */
+  start?: number;
+  /** Region end in seconds (default: end of the audio) */
+  end?: number;
+  /**
+   * Skipped after the region start (default "auto" for the whole buffer, so
+   * short plucked notes are kept; 0 once start or end is given: the region
+   * is chosen)
+   */
+  attackSkip?: AttackSkip;
+  /** Options for attackSkip "auto" */
+  attack?: AttackDetectionOptions;
+}
+
+/** Resolved region in samples */
+export interface AnalysisRegion {
+  /** First analyzed sample (region start + attack skip) */
+  start: number;
+  /** One past the last analyzed sample */
+  end: number;
+  /** Region start as requested, before the attack skip */
+  regionStart: number;
+  /** Samples skipped as attack */
+  attackSkip: number;
+  /** Detector result when attackSkip was "auto" (null when no onset was found) */
+  attack?: AttackInfo | null;
+}
+
+/**
+ * Find the attack from the RMS envelope: the onset is the first window above
+ * onsetRatio × the envelope maximum, the peak the loudest window within
+ * maxSkipSeconds after it; the attack ends settleSeconds after the peak.
+ * Audio that starts above the threshold without rising riseRatio further
+ * (a slice taken mid-note) has no attack to skip: end = 0.
+ * Returns null when the audio never rises above minRMS.
+ */
+export function detectAttack(
+  audio: Float32Array,
+  sampleRate: number,
+  options: AttackDetectionOptions = {}
+): AttackInfo | null {
+  const windowSize = Math.max(1, Math.round(sampleRate * (options.windowSeconds ?? 0.01)));
+  const onsetRatio = options.onsetRatio ?? 0.1;
+  const riseRatio = options.riseRatio ?? 2;
+  const minRMS = options.minRMS ?? 0.01;
+  const settle = options.settleSeconds ?? 0.05;
+  const maxSkip = options.maxSkipSeconds ?? DEFAULT_ATTACK_SKIP_SECONDS;
+
+  const envelope: number[] = [];
+  for (let start = 0; start < audio.length; start += windowSize) {
+    envelope.push(calculateRMS(audio.subarray(start, Math.min(audio.length, start + windowSize))));
+  }
+  const maxLevel = envelope.reduce((m, v) => Math.max(m, v), 0);
+  if (maxLevel < minRMS) return null;
+
+  const threshold = Math.max(minRMS, maxLevel * onsetRatio);
+  const onsetIndex = envelope.findIndex((v) => v >= threshold);
+  const lastIndex = Math.min(envelope.length - 1, onsetIndex + Math.ceil((maxSkip * sampleRate) / windowSize));
+  let peakIndex = onsetIndex;
+  for (let i = onsetIndex; i <= lastIndex; i++) {
+    if (envelope[i] > envelope[peakIndex]) peakIndex = i;
+  }
+
+  const toSeconds = (index: number) => (index * windowSize) / sampleRate;
+  const onset = toSeconds(onsetIndex);
+  const peak = toSeconds(peakIndex + 0.5);
+  const midNote = onsetIndex === 0 && envelope[peakIndex] < envelope[0] * riseRatio;
+  return {
+    onset,
+    peak,
+    end: midNote ? 0 : Math.min(onset + maxSkip, peak + settle),
+  };
+}
+
+/**
+ * Turn start/end/attack-skip (seconds) into sample bounds for `audio`
+ * @throws Error when the region is empty, starts past the end of the audio
+ * or an explicit attack skip leaves nothing of it (a default skip never does)
+ */
+export function resolveAnalysisRegion(
+  audio: Float32Array,
+  sampleRate: number,
+  options: RegionOptions = {}
+): AnalysisRegion {
+  const duration = audio.length / sampleRate;
+  const startSeconds = options.start ?? 0;
+  const endSeconds = options.end ?? duration;
+  if (startSeconds >= duration) {
+    throw new Error(`Region start ${startSeconds} s is past the end of the audio (${duration.toFixed(2)} s)`);
+  }
+  if (endSeconds <= startSeconds) {
+    throw new Error(`Region end ${endSeconds} s must be after its start ${startSeconds} s`);
+  }
+
+  const regionStart = Math.max(0, Math.floor(startSeconds * sampleRate));
+  const end = Math.min(audio.length, Math.ceil(endSeconds * sampleRate));
+  const wholeBuffer = options.start === undefined && options.end === undefined;
+  const skip = options.attackSkip ?? (wholeBuffer ? "auto" : 0);
+
+  const region: AnalysisRegion = { start: regionStart, end, regionStart, attackSkip: 0 };
+  let skipSeconds: number;
+  if (skip === "auto") {
+    region.attack = detectAttack(audio.subarray(regionStart, end), sampleRate, options.attack);
+    skipSeconds = region.attack?.end ?? 0;
+  } else {
+    skipSeconds = skip;
+  }
+  region.attackSkip = Math.min(end - regionStart, Math.floor(skipSeconds * sampleRate));
+  if (region.attackSkip === end - regionStart) {
+    if (options.attackSkip === undefined) {
+      // The whole region is attack: keep it rather than analyze nothing
+      region.attackSkip = 0;
+    } else {
+      throw new Error(
+        `Attack skip ${skipSeconds.toFixed(2)} s leaves nothing of the ${((end - regionStart) / sampleRate).toFixed(2)} s region`
+      );
+    }
+  }
+  region.start = regionStart + region.attackSkip;
+  return region;
+}
+
+/**
+ * Parse an --attack-skip style value: seconds ≥ 0 or "auto"
+ * Returns null when the text is neither.
+ */
+export function parseAttackSkip(text: string): AttackSkip | null {
+  const trimmed = text.trim().toLowerCase();
+  if (trimmed === "auto") return "auto";
+  if (trimmed === "") return null;
+  const seconds = Number(trimmed);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : null;
+}
@@ -0,0 +1,329 @@
+// core/dsp/config-schema.ts
+// Versioned DSP config files: schema validation with readable messages and
+// migration of files written by older versions.
+
+import type { DSPConfig } from "./dsp-config.js";
+import { NOISE_REDUCTION_METHODS } from "./denoise.js";
+import { HUM_FILTER_MODES } from "./hum.js";
+import { FILTER_STAGE_TYPES } from "./filters.js";
+
+/** Version written by this build; files without a version are version 1 */
+export const DSP_CONFIG_VERSION = 2;
+
+/** A config file or preset: metadata plus the fields it overrides */
+export interface DSPConfigFile {
+  version: number;
+  name?: string;
+  description?: string;
+  /** Preset applied first; this file's fields override it */
+  extends?: string;
+  config: Partial<DSPConfig>;
+}
+
+type FieldRule =
+  | { type: "boolean" }
+  | { type: "enum"; values: readonly string[] }
+  | { type: "filterChain" }
+  | {
+      type: "number";
+      min?: number;
+      max?: number;
+      /** Lower bound excluded (value must be > min) */
+      exclusiveMin?: boolean;
+      integer?: boolean;
+      powerOfTwo?: boolean;
+    };
+
+/** One rule per DSPConfig field; keys not listed here are rejected */
+const SCHEMA: Record<keyof DSPConfig, FieldRule> = {
+  highPassCutoff: { type: "number", min: 0 },
+  lowPassCutoff: { type: "number", min: 0 },
+  highPassQ: { type: "number", min: 0, exclusiveMin: true },
+  lowPassQ: { type: "number", min: 0, exclusiveMin: true },
+  humFilter: { type: "enum", values: HUM_FILTER_MODES },
+  humHarmonics: { type: "number", min: 1, max: 20, integer: true },
+  humNotchQ: { type: "number", min: 0, max: 500, exclusiveMin: true },
+  humCutDb: { type: "number", min: 0, max: 60 },
+  filterChain: { type: "filterChain" },
+  noiseGateThreshold: { type: "number", min: 0, max: 1 },
+  enableNoiseGate: { type: "boolean" },
+  adaptiveNoiseGate: { type: "boolean" },
+  noiseGateMarginDb: { type: "number", min: 0, max: 40 },
+  noiseReduction: { type: "enum", values: NOISE_REDUCTION_METHODS },
+  noiseReductionAmount: { type: "number", min: 0, max: 10 },
+  noiseReductionFloor: { type: "number", min: 0, max: 1 },
+  noiseProfileMs: { type: "number", min: 0, max: 10000 },
+  enableNormalization: { type: "boolean" },
+  normalizationTargetRMS: { type: "number", min: 0, max: 1, exclusiveMin: true },
+  enableMedianSmoothing: { type: "boolean" },
+  medianWindowSize: { type: "number", min: 1, max: 99, integer: true },
+  enableMovingAverage: { type: "boolean" },
+  movingAverageAlpha: { type: "number", min: 0, max: 1, exclusiveMin: true },
+  minFrequency: { type: "number", min: 0 },
+  maxFrequency: { type: "number", min: 0 },
+  voicingMinRMS: { type: "number", min: 0, max: 1 },
+  voicingMaxAperiodicity: { type: "number", min: 0, max: 1 },
+  voicingMaxZeroCrossingRate: { type: "number", min: 0, max: 1 },
+  voicingMinConfidence: { type: "number", min: 0, max: 1 },
+  frameSize: { type: "number", min: 64, max: 65536, integer: true, powerOfTwo: true },
+  hopSize: { type: "number", min: 1, integer: true },
+  analysisSampleRate: { type: "number", min: 0 },
+};
+
+export const DSP_CONFIG_FIELDS = Object.keys(SCHEMA) as (keyof DSPConfig)[];
+
+const META_KEYS = ["version", "name", "description", "extends"];
+
+/**
+ * Upgrades from version n to n + 1. Each step gets the raw object and returns
+ * the next version's object; `warn` collects notes for the user.
+ */
+const MIGRATIONS: Record<number, (raw: Record<string, unknown>, warn: (message: string) => void) => Record<string, unknown>> = {
+  // 1 → 2: version 1 files were shallow-merged without checks, so they may hold
+  // stray keys (typos, comments) or nulls; drop both instead of failing
+  1: (raw, warn) => {
+    const next: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(raw)) {
+      if (value === null) continue;
+      if (key in SCHEMA || META_KEYS.includes(key)) next[key] = value;
+      else warn(`ignored unknown field ${key}${suggest(key)}`);
+    }
+    next.version = 2;
+    return next;
+  },
+};
+
+/**
+ * Problems with a (partial) config, one message per field; empty when valid.
+ * Cross-field checks run only when both fields are present.
+ */
+export function validateDSPConfig(config: Partial<DSPConfig> | Record<string, unknown>): string[] {
+  const issues: string[] = [];
+  for (const [key, value] of Object.entries(config)) {
+    const rule = SCHEMA[key as keyof DSPConfig];
+    if (!rule) {
+      issues.push(`${key}: unknown field${suggest(key)}`);
+      continue;
+    }
+    if (value === undefined) continue;
+    if (rule.type === "boolean") {
+      if (typeof value !== "boolean") issues.push(`${key}: must be true or false (got ${describe(value)})`);
+      continue;
+    }
+    if (rule.type === "enum") {
+      if (typeof value !== "string" || !rule.values.includes(value)) {
+        issues.push(`${key}: must be one of ${rule.values.join(", ")} (got ${describe(value)})`);
+      }
+      continue;
+    }
+    if (rule.type === "filterChain") {
+      issues.push(...filterChainIssues(key, value));
+      continue;
+    }
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      issues.push(`${key}: must be a number (got ${describe(value)})`);
+      continue;
+    }
+    if (rule.integer && !Number.isInteger(value)) {
+      issues.push(`${key}: must be a whole number (got ${value})`);
+    } else if (rule.powerOfTwo && (value & (value - 1)) !== 0) {
+      issues.push(`${key}: must be a power of two, e.g. 1024, 2048, 4096 (got ${value})`);
+    } else if (!inRange(value, rule)) {
+      issues.push(`${key}: ${rangeText(rule)} (got ${value})`);
+    }
+  }
+
+  const c = config as Partial<DSPConfig>;
+  if (isPositive(c.hopSize) && isPositive(c.frameSize) && c.hopSize! > c.frameSize!) {
+    issues.push(`hopSize: must not exceed frameSize (${c.hopSize} > ${c.frameSize})`);
+  }
+  if (isPositive(c.minFrequency) && isPositive(c.maxFrequency) && c.maxFrequency! <= c.minFrequency!) {
+    issues.push(`maxFrequency: must be above minFrequency (${c.maxFrequency} <= ${c.minFrequency})`);
+  }
+  if (isPositive(c.highPassCutoff) && isPositive(c.lowPassCutoff) && c.lowPassCutoff! <= c.highPassCutoff!) {
+    issues.push(`lowPassCutoff: must be above highPassCutoff (${c.lowPassCutoff} <= ${c.highPassCutoff})`);
+  }
+  return issues;
+}
+
+/**
+ * @throws Error listing every problem, prefixed with `source` (file name or preset)
+ */
+export function assertValidDSPConfig(config: Partial<DSPConfig> | Record<string, unknown>, source: string): void {
+  const issues = validateDSPConfig(config);
+  if (issues.length) {
+    throw new Error(`Invalid DSP config in ${source}:\n  - ${issues.join("\n  - ")}`);
+  }
+}
+
+/**
+ * Read a parsed JSON config file or preset: migrate it to DSP_CONFIG_VERSION,
+ * then validate every field
+ * @param source name used in messages (file path or preset name)
+ * @throws Error for non-objects, unknown future versions and invalid fields
+ */
+export function parseDSPConfigFile(raw: unknown, source: string): { file: DSPConfigFile; warnings: string[] } {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error(`Invalid DSP config in ${source}: expected a JSON object (got ${describe(raw)})`);
+  }
+  const warnings: string[] = [];
+  let data = raw as Record<string, unknown>;
+
+  const declared = data.version ?? 1;
+  if (typeof declared !== "number" || !Number.isInteger(declared) || declared < 1) {
+    throw new Error(`Invalid DSP config in ${source}: version must be a positive whole number (got ${describe(declared)})`);
+  }
+  if (declared > DSP_CONFIG_VERSION) {
+    throw new Error(
+      `${source} is DSP config version ${declared}; this build reads up to version ${DSP_CONFIG_VERSION}`
+    );
+  }
+  for (let version = declared; version < DSP_CONFIG_VERSION; version++) {
+    data = MIGRATIONS[version](data, (message) => warnings.push(message));
+  }
+  if (declared < DSP_CONFIG_VERSION) {
+    warnings.unshift(`version ${declared} file read as version ${DSP_CONFIG_VERSION} (add "version": ${DSP_CONFIG_VERSION} to silence this)`);
+  }
+
+  const issues: string[] = [];
+  for (const key of ["name", "description", "extends"]) {
+    if (data[key] !== undefined && typeof data[key] !== "string") {
+      issues.push(`${key}: must be a string (got ${describe(data[key])})`);
+    }
+  }
+  const config: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (!META_KEYS.includes(key)) config[key] = value;
+  }
+  issues.push(...validateDSPConfig(config));
+  if (issues.length) {
+    // Migration notes often explain the failure (a misspelt field dropped from an old file)
+    const notes = warnings.map((w) => `\n  note: ${w}`).join("");
+    throw new Error(`Invalid DSP config in ${source}:\n  - ${issues.join("\n  - ")}${notes}`);
+  }
+
+  return {
+    file: {
+      version: DSP_CONFIG_VERSION,
+      name: data.name as string | undefined,
+      description: data.description as string | undefined,
+      extends: data.extends as string | undefined,
+      config: config as Partial<DSPConfig>,
+    },
+    warnings,
+  };
+}
+
+/**
+ * Current-version JSON object for a config (fields in schema order, metadata first)
+ */
+export function serializeDSPConfigFile(
+  config: Partial<DSPConfig>,
+  meta: { name?: string; description?: string; extends?: string } = {}
+): Record<string, unknown> {
+  const out: Record<string, unknown> = { version: DSP_CONFIG_VERSION };
+  if (meta.name) out.name = meta.name;
+  if (meta.description) out.description = meta.description;
+  if (meta.extends) out.extends = meta.extends;
+  for (const key of DSP_CONFIG_FIELDS) {
+    if (config[key] !== undefined) out[key] = config[key];
+  }
+  return out;
+}
+
+const STAGE_KEYS = ["type", "frequency", "order", "Q", "gainDb"];
+const GAIN_STAGES = ["peaking", "lowshelf", "highshelf"];
+
+/** One message per problem, as `filterChain[i].field: …` */
+function filterChainIssues(key: string, value: unknown): string[] {
+  if (!Array.isArray(value)) return [`${key}: must be a list of filter stages (got ${describe(value)})`];
+  const issues: string[] = [];
+  value.forEach((stage: unknown, i) => {
+    const at = `${key}[${i}]`;
+    if (typeof stage !== "object" || stage === null || Array.isArray(stage)) {
+      issues.push(`${at}: must be an object with type and frequency (got ${describe(stage)})`);
+      return;
+    }
+    const s = stage as Record<string, unknown>;
+    for (const field of Object.keys(s)) {
+      if (!STAGE_KEYS.includes(field)) issues.push(`${at}.${field}: unknown stage field (use ${STAGE_KEYS.join(", ")})`);
+    }
+    const type = s.type as string;
+    if (!(FILTER_STAGE_TYPES as readonly string[]).includes(type)) {
+      issues.push(`${at}.type: must be one of ${FILTER_STAGE_TYPES.join(", ")} (got ${describe(s.type)})`);
+    }
+    if (typeof s.frequency !== "number" || !Number.isFinite(s.frequency) || s.frequency <= 0) {
+      issues.push(`${at}.frequency: must be a number above 0 (got ${describe(s.frequency)})`);
+    }
+    if (s.order !== undefined) {
+      if (type !== "highpass" && type !== "lowpass") {
+        issues.push(`${at}.order: only highpass and lowpass stages have an order`);
+      } else if (typeof s.order !== "number" || !Number.isInteger(s.order) || s.order < 2 || s.order > 8) {
+        issues.push(`${at}.order: must be a whole number between 2 and 8 (got ${describe(s.order)})`);
+      }
+    }
+    if (s.Q !== undefined) {
+      if (typeof s.Q !== "number" || !Number.isFinite(s.Q) || s.Q <= 0 || s.Q > 500) {
+        issues.push(`${at}.Q: must be above 0 and at most 500 (got ${describe(s.Q)})`);
+      } else if (typeof s.order === "number" && s.order > 2) {
+        issues.push(`${at}.Q: Butterworth stages above order 2 have fixed section Qs; remove Q or use order 2`);
+      }
+    }
+    if (GAIN_STAGES.includes(type)) {
+      if (typeof s.gainDb !== "number" || !Number.isFinite(s.gainDb) || Math.abs(s.gainDb) > 48) {
+        issues.push(`${at}.gainDb: ${type} stages need a gain between -48 and 48 dB (got ${describe(s.gainDb)})`);
+      }
+    } else if (s.gainDb !== undefined) {
+      issues.push(`${at}.gainDb: only ${GAIN_STAGES.join(", ")} stages have a gain`);
+    }
+  });
+  return issues;
+}
+
+function inRange(value: number, rule: { min?: number; max?: number; exclusiveMin?: boolean }): boolean {
+  if (rule.min !== undefined && (rule.exclusiveMin ? value <= rule.min : value < rule.min)) return false;
+  if (rule.max !== undefined && value > rule.max) return false;
+  return true;
+}
+
+function rangeText(rule: { min?: number; max?: number; exclusiveMin?: boolean }): string {
+  const lower = rule.min === undefined ? "" : rule.exclusiveMin ? `above ${rule.min}` : `at least ${rule.min}`;
+  if (rule.max === undefined) return `must be ${lower}`;
+  if (rule.min === undefined) return `must be at most ${rule.max}`;
+  return rule.exclusiveMin
+    ? `must be above ${rule.min} and at most ${rule.max}`
+    : `must be between ${rule.min} and ${rule.max}`;
+}
+
+function isPositive(value: number | undefined): boolean {
+  return typeof value === "number" && value > 0;
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  if (typeof value === "string") return `"${value}"`;
+  if (typeof value === "object") return "an object";
+  return String(value);
+}
+
+/** " (did you mean …?)" for a key within two edits or a case change of a field */
+function suggest(key: string): string {
+  const lower = key.toLowerCase();
+  const match = DSP_CONFIG_FIELDS.find((field) => field.toLowerCase() === lower || editDistance(field, key) <= 2);
+  return match ? ` (did you mean ${match}?)` : "";
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const next = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = row[j];
+      row[j] = next;
+    }
+  }
+  return row[b.length];
+}
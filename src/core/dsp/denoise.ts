@@ -0,0 +1,195 @@
+// core/dsp/denoise.ts
+// Noise profiling and spectral noise reduction: a noise power spectrum is
+// learned from a stretch of background noise, then removed from every frame
+// by spectral subtraction or a Wiener gain before pitch detection.
+
+import { fft, nextPowerOfTwo } from "./fft.js";
+
+/** "off", power spectral subtraction, or Wiener filtering */
+export type NoiseReductionMethod = "off" | "subtract" | "wiener";
+
+export const NOISE_REDUCTION_METHODS: readonly NoiseReductionMethod[] = ["off", "subtract", "wiener"];
+
+/** Default FFT length for estimateNoiseProfile */
+export const DEFAULT_NOISE_FFT_SIZE = 2048;
+
+/** Averaged noise spectrum; plain data so it can be posted to a worker */
+export interface NoiseProfile {
+  /** Rate of the profiled audio (the denoiser rescales for other rates) */
+  sampleRate: number;
+  /** FFT length the spectrum was measured with */
+  fftSize: number;
+  /**
+   * Mean noise power per bin 0 … fftSize/2, divided by the window energy
+   * Σw², so it reads as the noise variance in each band for any frame length
+   */
+  power: Float32Array;
+  /** RMS of the profiled audio */
+  rms: number;
+  /** Frames averaged */
+  frames: number;
+}
+
+export interface DenoiseSettings {
+  method: NoiseReductionMethod;
+  /** Noise estimate multiplier (> 1 removes more noise and more signal) */
+  amount: number;
+  /** Lowest gain per bin (0–1); keeps some residue instead of "musical noise" */
+  floor: number;
+}
+
+/**
+ * NoiseProfiler
+ * Accumulates Hann-windowed power spectra of the frames pushed to it.
+ * The FFT length is fixed by the first frame (rounded up to a power of two).
+ */
+export class NoiseProfiler {
+  private sum: Float64Array | null = null;
+  private fftSize = 0;
+  private count = 0;
+  private sumSquares = 0;
+  private samples = 0;
+
+  constructor(private readonly sampleRate: number) {}
+
+  push(frame: Float32Array): void {
+    if (frame.length === 0) return;
+    if (!this.sum) {
+      this.fftSize = nextPowerOfTwo(frame.length);
+      this.sum = new Float64Array(this.fftSize / 2 + 1);
+    }
+    const n = this.fftSize;
+    const length = Math.min(frame.length, n);
+    const re = new Float64Array(n);
+    const im = new Float64Array(n);
+    let windowEnergy = 0;
+    for (let i = 0; i < length; i++) {
+      const w = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / Math.max(1, length - 1));
+      re[i] = frame[i] * w;
+      windowEnergy += w * w;
+      this.sumSquares += frame[i] * frame[i];
+    }
+    this.samples += length;
+    if (windowEnergy === 0) return;
+    fft(re, im);
+    for (let k = 0; k < this.sum.length; k++) {
+      this.sum[k] += (re[k] * re[k] + im[k] * im[k]) / windowEnergy;
+    }
+    this.count++;
+  }
+
+  /** Frames pushed so far */
+  get frames(): number {
+    return this.count;
+  }
+
+  /** Averaged profile, or null before the first frame */
+  profile(): NoiseProfile | null {
+    if (!this.sum || this.count === 0) return null;
+    const power = new Float32Array(this.sum.length);
+    for (let k = 0; k < power.length; k++) power[k] = this.sum[k] / this.count;
+    return {
+      sampleRate: this.sampleRate,
+      fftSize: this.fftSize,
+      power,
+      rms: Math.sqrt(this.sumSquares / Math.max(1, this.samples)),
+      frames: this.count,
+    };
+  }
+}
+
+/**
+ * Noise profile of a stretch of audio that holds only background noise
+ * (50% overlapping frames; shorter audio is one zero-padded frame)
+ * @throws Error when the audio is empty
+ */
+export function estimateNoiseProfile(
+  audio: Float32Array,
+  sampleRate: number,
+  fftSize: number = DEFAULT_NOISE_FFT_SIZE
+): NoiseProfile {
+  if (audio.length === 0) throw new Error("Noise region is empty");
+  const size = Math.min(nextPowerOfTwo(fftSize), nextPowerOfTwo(audio.length));
+  const profiler = new NoiseProfiler(sampleRate);
+  const hop = size / 2;
+  for (let start = 0; start === 0 || start + size <= audio.length; start += hop) {
+    profiler.push(audio.subarray(start, Math.min(audio.length, start + size)));
+  }
+  return profiler.profile()!;
+}
+
+/**
+ * SpectralDenoiser
+ * Filters one frame at a time with a zero-phase gain per FFT bin (frames are
+ * zero-padded to twice their length to limit circular wrap-around). The noise
+ * spectrum is interpolated onto each frame's bin grid and cached per length.
+ */
+export class SpectralDenoiser {
+  private noise: { size: number; length: number; power: Float64Array } | null = null;
+
+  constructor(readonly profile: NoiseProfile, private readonly sampleRate: number) {}
+
+  process(frame: Float32Array, settings: DenoiseSettings): Float32Array {
+    if (settings.method === "off" || frame.length === 0) return frame;
+    const size = nextPowerOfTwo(frame.length) * 2;
+    const noise = this.noiseFor(size, frame.length);
+
+    const re = new Float64Array(size);
+    const im = new Float64Array(size);
+    for (let i = 0; i < frame.length; i++) re[i] = frame[i];
+    fft(re, im);
+
+    const amount = Math.max(0, settings.amount);
+    const floor = Math.min(1, Math.max(0, settings.floor));
+    for (let k = 0; k <= size / 2; k++) {
+      const power = re[k] * re[k] + im[k] * im[k];
+      const noisePower = amount * noise[k];
+      let gain: number;
+      if (power <= 0) {
+        gain = floor;
+      } else if (settings.method === "subtract") {
+        gain = Math.sqrt(Math.max(0, 1 - noisePower / power));
+      } else {
+        // Wiener gain from the a-posteriori SNR (maximum-likelihood a-priori estimate)
+        const snr = noisePower > 0 ? Math.max(0, power / noisePower - 1) : Infinity;
+        gain = snr === Infinity ? 1 : snr / (1 + snr);
+      }
+      gain = Math.max(floor, gain);
+      re[k] *= gain;
+      im[k] *= gain;
+      if (k > 0 && k < size / 2) {
+        re[size - k] *= gain;
+        im[size - k] *= gain;
+      }
+    }
+
+    fft(re, im, true);
+    const out = new Float32Array(frame.length);
+    for (let i = 0; i < frame.length; i++) out[i] = re[i];
+    return out;
+  }
+
+  /**
+   * Expected noise power per bin of a `size`-point FFT of `length` unwindowed
+   * samples at this denoiser's rate
+   */
+  private noiseFor(size: number, length: number): Float64Array {
+    if (this.noise && this.noise.size === size && this.noise.length === length) return this.noise.power;
+    const { power, fftSize, sampleRate } = this.profile;
+    // Band variance scales with the rate (same noise density per Hz)
+    const scale = length * (this.sampleRate / sampleRate);
+    const out = new Float64Array(size / 2 + 1);
+    for (let k = 0; k < out.length; k++) {
+      const position = ((k * this.sampleRate) / size) * (fftSize / sampleRate);
+      const i = Math.floor(position);
+      if (i >= power.length - 1) {
+        out[k] = i === power.length - 1 ? power[i] * scale : 0;
+        continue;
+      }
+      const t = position - i;
+      out[k] = (power[i] * (1 - t) + power[i + 1] * t) * scale;
+    }
+    this.noise = { size, length, power: out };
+    return out;
+  }
+}
@@ -1,16 +1,33 @@
 // core/dsp/dsp-config.ts
 // DSP configuration used across filters, noise gate, smoothing, etc.
 
+import type { NoiseReductionMethod } from "./denoise.js";
+import type { HumFilterMode } from "./hum.js";
+import type { FilterStage } from "./filters.js";
+
 export interface DSPConfig {
   // Filtering
   highPassCutoff: number; // Hz
   lowPassCutoff: number; // Hz (set to 0 to disable)
   highPassQ?: number; // Q factor for HPF (Butterworth default ~0.707)
   lowPassQ?: number; // Q factor for LPF
+  humFilter?: HumFilterMode; // Mains hum notches: "off" | "auto" (detect 50/60 Hz) | "50" | "60"
+  humHarmonics?: number; // Notches at the mains frequency and its harmonics (count, fundamental included)
+  humNotchQ?: number; // Q of each notch (bandwidth = frequency / Q)
+  humCutDb?: number; // 0 = full notches; otherwise peaking cuts this deep (dB)
+  filterChain?: FilterStage[]; // Extra stages after HPF/hum/LPF, in order (Butterworth orders 2–8, notches, shelves…)
 
   // Noise control
   noiseGateThreshold: number; // RMS threshold [0–1]
   enableNoiseGate: boolean;
+  adaptiveNoiseGate?: boolean; // Gate threshold follows the noise floor instead of noiseGateThreshold
+  noiseGateMarginDb?: number; // Adaptive gate: threshold this far above the tracked floor (dB)
+
+  // Noise reduction (see core/dsp/denoise.ts; needs a noise profile)
+  noiseReduction?: NoiseReductionMethod; // "off" | "subtract" | "wiener"
+  noiseReductionAmount?: number; // Noise estimate multiplier (over-subtraction)
+  noiseReductionFloor?: number; // Lowest gain per FFT bin [0–1]
+  noiseProfileMs?: number; // Live input: learn the profile from this much audio at the start (0 = only on request)
 
   // Normalization
   enableNormalization: boolean;
@@ -22,17 +39,43 @@ export interface DSPConfig {
   enableMovingAverage: boolean;
   movingAverageAlpha: number; // [0–1] lower = smoother
 
+  // Pitch range (see core/instruments.ts for presets)
+  minFrequency?: number; // Hz, lowest F0 searched (0 = longest lag the frame allows)
+  maxFrequency?: number; // Hz, highest F0 reported (0 = no limit)
+
+  // Voicing decision (see core/dsp/voicing.ts)
+  voicingMinRMS?: number; // RMS below this is silence
+  voicingMaxAperiodicity?: number; // YIN aperiodicity above this is noise [0–1]
+  voicingMaxZeroCrossingRate?: number; // Sign changes per sample above this is noise [0–1] (0 = off)
+  voicingMinConfidence?: number; // Pitched frames below this confidence are unvoiced [0–1]
+
   // Frame settings
   frameSize: number; // Must be power of 2 for YIN (e.g. 1024, 2048, 4096)
+  hopSize?: number; // Samples between frame starts (frameSize = no overlap)
+
+  // Resampling
+  analysisSampleRate?: number; // Hz; input is resampled to this rate before analysis (0 = native rate)
 }
-// Embedded defaults used when no external JSON is available
+// Embedded defaults (browser, and the CLI base before config files)
 const EMBEDDED_DEFAULTS: DSPConfig = {
   highPassCutoff: 50, // Remove rumble
   lowPassCutoff: 0, // No LPF by default
   highPassQ: 0.707,
   lowPassQ: 0.707,
+  humFilter: "off",
+  humHarmonics: 4, // 60, 120, 180, 240 Hz
+  humNotchQ: 30, // 2 Hz wide at 60 Hz
+  humCutDb: 0,
+  filterChain: [], // e.g. [{ type: "highpass", frequency: 40, order: 4 }]
   noiseGateThreshold: 0.02, // Ignore frames with very low signal
   enableNoiseGate: true,
+  adaptiveNoiseGate: false,
+  noiseGateMarginDb: 6,
+
+  noiseReduction: "off",
+  noiseReductionAmount: 1.5,
+  noiseReductionFloor: 0.05, // -26 dB
+  noiseProfileMs: 500,
 
   enableNormalization: true,
   normalizationTargetRMS: 0.25,
@@ -43,47 +86,23 @@ const EMBEDDED_DEFAULTS: DSPConfig = {
   enableMovingAverage: true,
   movingAverageAlpha: 0.35,
 
+  minFrequency: 0, // Bounded by frameSize only
+  maxFrequency: 4200, // Just above C8, the top of the piano
+
+  voicingMinRMS: 0.01,
+  voicingMaxAperiodicity: 0.35,
+  voicingMaxZeroCrossingRate: 0.4, // White noise ≈ 0.5; a 4 kHz tone at 44.1 kHz ≈ 0.18
+  voicingMinConfidence: 0.6,
+
   frameSize: 2048,
+  hopSize: 512, // 75% overlap
+
+  analysisSampleRate: 0, // Analyze at the input rate
 };
 
 /**
- * Load `dsp-config.json` from project root when running under Node.js.
- * If not found or on non-Node environments (browser), fall back to embedded defaults.
- * The JSON is shallow-merged over the embedded defaults so missing fields keep safe values.
+ * Embedded defaults. The CLI layers `dsp-config.json`, presets and flags on
+ * top (see cli/dsp-config-files.ts); files are validated and migrated by
+ * core/dsp/config-schema.ts.
  */
-export const defaultDSPConfig: DSPConfig = (() => {
-  try {
-    // Detect Node.js runtime via globalThis to avoid referencing 'process' directly
-    const g: any = globalThis as any;
-    if (g && g.process && g.process.versions && g.process.versions.node) {
-      // Obtain require in a way that avoids TypeScript compile-time errors
-      let fs: any;
-      let path: any;
-      try {
-        if (typeof g.require === "function") {
-          fs = g.require("fs");
-          path = g.require("path");
-        } else if (typeof eval === "function") {
-          // eslint-disable-next-line no-eval
-          const req: any = eval("require");
-          fs = req("fs");
-          path = req("path");
-        }
-      } catch (err) {
-        // If we can't obtain require, fall back to embedded defaults
-        return EMBEDDED_DEFAULTS;
-      }
-
-      const filePath = path.resolve(g.process.cwd(), "dsp-config.json");
-      if (fs && fs.existsSync(filePath)) {
-        const raw = fs.readFileSync(filePath, "utf8");
-        const parsed = JSON.parse(raw);
-        // Shallow merge: values in JSON override embedded defaults
-        return { ...EMBEDDED_DEFAULTS, ...parsed } as DSPConfig;
-      }
-    }
-  } catch (e) {
-    // Ignore errors and fall back to embedded defaults
-  }
-  return EMBEDDED_DEFAULTS;
-})();
+export const defaultDSPConfig: DSPConfig = EMBEDDED_DEFAULTS;
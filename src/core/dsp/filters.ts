@@ -1,12 +1,51 @@
 // core/dsp/filters.ts
-// High-pass and Low-pass Biquad filters
+// Biquad filters (high-pass, low-pass, band-pass, notch, peaking, shelves),
+// Butterworth cascades, the mains hum notch cascade, the configurable filter
+// chain and frequency responses
 
 import type { DSPConfig } from "./dsp-config.js";
+import { detectHum, humFrequencyFor, HumDetector } from "./hum.js";
+import type { HumDetection, HumFrequency } from "./hum.js";
+
+export type FilterStageType = "highpass" | "lowpass" | "bandpass" | "notch" | "peaking" | "lowshelf" | "highshelf";
+
+export const FILTER_STAGE_TYPES: readonly FilterStageType[] = [
+  "highpass",
+  "lowpass",
+  "bandpass",
+  "notch",
+  "peaking",
+  "lowshelf",
+  "highshelf",
+];
+
+/** One stage of DSPConfig.filterChain */
+export interface FilterStage {
+  type: FilterStageType;
+  /** Cutoff (highpass/lowpass), centre (bandpass/notch/peaking) or corner (shelves), Hz */
+  frequency: number;
+  /** highpass/lowpass: Butterworth order 2–8, built from cascaded sections (default 2) */
+  order?: number;
+  /** Order-2 highpass/lowpass and the other types (default 0.707; notch 30) */
+  Q?: number;
+  /** peaking and shelves: boost (> 0) or cut (< 0) in dB */
+  gainDb?: number;
+}
+
+/** Filter gain and phase at one frequency */
+export interface FrequencyResponsePoint {
+  frequency: number;
+  magnitudeDb: number;
+  /** Degrees, -180 to 180 */
+  phase: number;
+}
 
 /**
  * Base Biquad Filter Class
+ * Keeps its state (z1, z2) between processFrame calls, so consecutive
+ * frames of a stream are filtered as one continuous signal.
  */
-class BiquadFilter {
+export class BiquadFilter {
   private a0 = 1;
   private a1 = 0;
   private a2 = 0;
@@ -23,17 +62,61 @@ class BiquadFilter {
     this.b2 = b2;
   }
 
-  processFrame(frame: Float32Array): Float32Array {
+  /**
+   * Filter a frame
+   * @param advance samples from this frame's start to the next frame's start.
+   * The state kept for the next call is the one reached at that point, where
+   * the next frame begins; with overlap its last `advance` samples are the new
+   * ones (default: whole frame, no overlap).
+   */
+  processFrame(frame: Float32Array, advance: number = frame.length): Float32Array {
     const out = new Float32Array(frame.length);
+    const keepAt = Math.max(0, Math.min(advance, frame.length));
+    let keptZ1 = this.z1;
+    let keptZ2 = this.z2;
     for (let i = 0; i < frame.length; i++) {
       const input = frame[i];
       const output = input * this.a0 + this.z1;
       this.z1 = input * this.a1 + this.z2 - this.b1 * output;
       this.z2 = input * this.a2 - this.b2 * output;
       out[i] = output;
+      if (i + 1 === keepAt) {
+        keptZ1 = this.z1;
+        keptZ2 = this.z2;
+      }
     }
+    this.z1 = keptZ1;
+    this.z2 = keptZ2;
     return out;
   }
+
+  /**
+   * Clear filter memory (e.g. when the stream restarts)
+   */
+  reset(): void {
+    this.z1 = 0;
+    this.z2 = 0;
+  }
+
+  /**
+   * Complex gain H(e^jω) at one frequency
+   */
+  response(frequency: number, sampleRate: number): { re: number; im: number } {
+    const w = (2 * Math.PI * frequency) / sampleRate;
+    const c1 = Math.cos(w);
+    const s1 = -Math.sin(w);
+    const c2 = Math.cos(2 * w);
+    const s2 = -Math.sin(2 * w);
+    const numRe = this.a0 + this.a1 * c1 + this.a2 * c2;
+    const numIm = this.a1 * s1 + this.a2 * s2;
+    const denRe = 1 + this.b1 * c1 + this.b2 * c2;
+    const denIm = this.b1 * s1 + this.b2 * s2;
+    const den = denRe * denRe + denIm * denIm;
+    return {
+      re: (numRe * denRe + numIm * denIm) / den,
+      im: (numIm * denRe - numRe * denIm) / den,
+    };
+  }
 }
 
 /**
@@ -83,32 +166,443 @@ export function createLowPassFilter(
 }
 
 /**
- * Apply both filters based on config
+ * Create Band-Pass Filter (0 dB at the centre; bandwidth frequency / Q)
  */
-export function applyFilters(
-  frame: Float32Array,
+export function createBandPassFilter(
+  frequency: number,
   sampleRate: number,
-  config: DSPConfig
-): Float32Array {
-  let processed = frame;
+  Q: number = 0.707
+): BiquadFilter {
+  const w0 = (2 * Math.PI * frequency) / sampleRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * Q);
+
+  const b0 = alpha;
+  const b1 = 0;
+  const b2 = -alpha;
+  const a0 = 1 + alpha;
+  const a1 = -2 * cos;
+  const a2 = 1 - alpha;
+
+  return new BiquadFilter(b0 / a0, b1 / a0, b2 / a0, a1 / a0, a2 / a0);
+}
+
+/**
+ * Create Notch Filter
+ * Zero gain at `frequency`; the -3 dB bandwidth is frequency / Q.
+ */
+export function createNotchFilter(
+  frequency: number,
+  sampleRate: number,
+  Q: number = 30
+): BiquadFilter {
+  const w0 = (2 * Math.PI * frequency) / sampleRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * Q);
 
-  if (config.highPassCutoff > 0) {
-    const hp = createHighPassFilter(
-      config.highPassCutoff,
-      sampleRate,
-      config.highPassQ ?? 0.707
+  const b0 = 1;
+  const b1 = -2 * cos;
+  const b2 = 1;
+  const a0 = 1 + alpha;
+  const a1 = -2 * cos;
+  const a2 = 1 - alpha;
+
+  return new BiquadFilter(b0 / a0, b1 / a0, b2 / a0, a1 / a0, a2 / a0);
+}
+
+/**
+ * Create Peaking (bell) Filter
+ * Boosts (gainDb > 0) or cuts (gainDb < 0) a band around `frequency`.
+ */
+export function createPeakingFilter(
+  frequency: number,
+  sampleRate: number,
+  Q: number,
+  gainDb: number
+): BiquadFilter {
+  const w0 = (2 * Math.PI * frequency) / sampleRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * Q);
+  const A = Math.pow(10, gainDb / 40);
+
+  const b0 = 1 + alpha * A;
+  const b1 = -2 * cos;
+  const b2 = 1 - alpha * A;
+  const a0 = 1 + alpha / A;
+  const a1 = -2 * cos;
+  const a2 = 1 - alpha / A;
+
+  return new BiquadFilter(b0 / a0, b1 / a0, b2 / a0, a1 / a0, a2 / a0);
+}
+
+/**
+ * Create Low-Shelf or High-Shelf Filter
+ * Shifts everything below (low) or above (high) `frequency` by gainDb.
+ */
+export function createShelfFilter(
+  kind: "low" | "high",
+  frequency: number,
+  sampleRate: number,
+  gainDb: number,
+  Q: number = 0.707
+): BiquadFilter {
+  const w0 = (2 * Math.PI * frequency) / sampleRate;
+  const cos = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * Q);
+  const A = Math.pow(10, gainDb / 40);
+  const root = 2 * Math.sqrt(A) * alpha;
+  // The high shelf mirrors the low shelf's cos terms
+  const sign = kind === "low" ? 1 : -1;
+
+  const b0 = A * (A + 1 - sign * (A - 1) * cos + root);
+  const b1 = sign * 2 * A * (A - 1 - sign * (A + 1) * cos);
+  const b2 = A * (A + 1 - sign * (A - 1) * cos - root);
+  const a0 = A + 1 + sign * (A - 1) * cos + root;
+  const a1 = -sign * 2 * (A - 1 + sign * (A + 1) * cos);
+  const a2 = A + 1 + sign * (A - 1) * cos - root;
+
+  return new BiquadFilter(b0 / a0, b1 / a0, b2 / a0, a1 / a0, a2 / a0);
+}
+
+/**
+ * Create a Butterworth high-pass or low-pass of any order as cascaded
+ * sections: one biquad per pole pair (Q = 1 / (2 cos θk)) plus a
+ * first-order section for odd orders
+ */
+export function createButterworthFilters(
+  kind: "highpass" | "lowpass",
+  cutoff: number,
+  sampleRate: number,
+  order: number = 2
+): BiquadFilter[] {
+  const create = kind === "highpass" ? createHighPassFilter : createLowPassFilter;
+  const sections: BiquadFilter[] = [];
+  for (let k = 0; k < Math.floor(order / 2); k++) {
+    // Pole angle from the negative real axis (odd orders also have a pole on it)
+    const theta = order % 2 === 0 ? (Math.PI * (2 * k + 1)) / (2 * order) : (Math.PI * (k + 1)) / order;
+    sections.push(create(cutoff, sampleRate, 1 / (2 * Math.cos(theta))));
+  }
+  if (order % 2 === 1) {
+    // First order (bilinear transform): pole at (K - 1) / (K + 1)
+    const K = Math.tan((Math.PI * cutoff) / sampleRate);
+    const pole = (K - 1) / (K + 1);
+    sections.push(
+      kind === "highpass"
+        ? new BiquadFilter(1 / (1 + K), -1 / (1 + K), 0, pole, 0)
+        : new BiquadFilter(K / (1 + K), K / (1 + K), 0, pole, 0)
     );
-    processed = hp.processFrame(processed);
   }
+  return sections;
+}
+
+/**
+ * Create the biquads of one filter chain stage; stages at or above
+ * Nyquist give none
+ */
+export function createFilterStage(stage: FilterStage, sampleRate: number): BiquadFilter[] {
+  const { frequency } = stage;
+  if (!(frequency > 0) || frequency >= sampleRate / 2) return [];
+  const Q = stage.Q ?? (stage.type === "notch" ? 30 : 0.707);
+  const gainDb = stage.gainDb ?? 0;
+  switch (stage.type) {
+    case "highpass":
+    case "lowpass": {
+      const order = stage.order ?? 2;
+      if (order === 2) {
+        const create = stage.type === "highpass" ? createHighPassFilter : createLowPassFilter;
+        return [create(frequency, sampleRate, Q)];
+      }
+      return createButterworthFilters(stage.type, frequency, sampleRate, order);
+    }
+    case "bandpass":
+      return [createBandPassFilter(frequency, sampleRate, Q)];
+    case "notch":
+      return [createNotchFilter(frequency, sampleRate, Q)];
+    case "peaking":
+      return [createPeakingFilter(frequency, sampleRate, Q, gainDb)];
+    case "lowshelf":
+      return [createShelfFilter("low", frequency, sampleRate, gainDb, Q)];
+    case "highshelf":
+      return [createShelfFilter("high", frequency, sampleRate, gainDb, Q)];
+  }
+}
 
-  if (config.lowPassCutoff > 0) {
-    const lp = createLowPassFilter(
-      config.lowPassCutoff,
-      sampleRate,
-      config.lowPassQ ?? 0.707
+/**
+ * Parse the text form of a filter chain: stages separated by ";" or new
+ * lines, each "<type> <frequency> [order=N] [q=X] [gain=dB]", e.g.
+ * "highpass 40 order=4; lowpass 1200 order=8". Ranges are checked by the
+ * config schema, not here.
+ * @throws Error for an unknown type or key, or a value that isn't a number
+ */
+export function parseFilterChain(text: string): FilterStage[] {
+  const stages: FilterStage[] = [];
+  for (const part of text.split(/[;\n]/)) {
+    const words = part.trim().split(/\s+/).filter(Boolean);
+    if (words.length === 0) continue;
+    const [type, frequency, ...rest] = words;
+    if (!FILTER_STAGE_TYPES.includes(type as FilterStageType)) {
+      throw new Error(`unknown filter type "${type}" (use ${FILTER_STAGE_TYPES.join(", ")})`);
+    }
+    const stage: FilterStage = { type: type as FilterStageType, frequency: chainNumber(frequency, `${type} frequency`) };
+    for (const setting of rest) {
+      const [key, value] = setting.split("=");
+      if (key === "order") stage.order = chainNumber(value, `${type} order`);
+      else if (key === "q" || key === "Q") stage.Q = chainNumber(value, `${type} q`);
+      else if (key === "gain") stage.gainDb = chainNumber(value, `${type} gain`);
+      else throw new Error(`unknown setting "${setting}" in "${part.trim()}" (use order=, q=, gain=)`);
+    }
+    stages.push(stage);
+  }
+  return stages;
+}
+
+/**
+ * Text form of a filter chain (see parseFilterChain)
+ */
+export function formatFilterChain(stages: FilterStage[]): string {
+  return stages
+    .map((stage) =>
+      [
+        stage.type,
+        stage.frequency,
+        stage.order !== undefined ? `order=${stage.order}` : "",
+        stage.Q !== undefined ? `q=${stage.Q}` : "",
+        stage.gainDb !== undefined ? `gain=${stage.gainDb}` : "",
+      ]
+        .filter((word) => word !== "")
+        .join(" ")
+    )
+    .join("; ");
+}
+
+function chainNumber(text: string | undefined, what: string): number {
+  const value = Number(text);
+  if (text === undefined || text.trim() === "" || !Number.isFinite(value)) {
+    throw new Error(`${what} must be a number (got "${text ?? ""}")`);
+  }
+  return value;
+}
+
+/**
+ * Create the hum cascade: one filter at the mains frequency and at each
+ * harmonic below 0.45 × sampleRate
+ * @param cutDb 0 for full notches, otherwise peaking cuts this deep (dB)
+ */
+export function createHumFilters(
+  frequency: number,
+  sampleRate: number,
+  harmonics: number = 4,
+  Q: number = 30,
+  cutDb: number = 0
+): BiquadFilter[] {
+  const filters: BiquadFilter[] = [];
+  for (let h = 1; h <= harmonics && frequency * h < sampleRate * 0.45; h++) {
+    filters.push(
+      cutDb > 0
+        ? createPeakingFilter(frequency * h, sampleRate, Q, -cutDb)
+        : createNotchFilter(frequency * h, sampleRate, Q)
+    );
+  }
+  return filters;
+}
+
+/**
+ * Resolve humFilter "auto" for a whole recording: detect the hum in `audio`
+ * and return the config with humFilter fixed to "50", "60" or "off"
+ */
+export function resolveHumFilter(
+  config: DSPConfig,
+  audio: Float32Array,
+  sampleRate: number
+): { config: DSPConfig; hum: HumDetection | null } {
+  if (config.humFilter !== "auto") return { config, hum: null };
+  const hum = detectHum(audio, sampleRate);
+  return { config: { ...config, humFilter: hum ? `${hum.frequency}` : "off" }, hum };
+}
+
+/**
+ * Persistent HPF/LPF pair, hum notches and filter chain for streaming use
+ * Filters are only rebuilt when their settings change, so state carries
+ * across consecutive frames. With humFilter "auto" the notches are added
+ * once a HumDetector finds hum in the incoming samples.
+ */
+export class FilterBank {
+  private readonly sampleRate: number;
+  private highPass: BiquadFilter | null = null;
+  private lowPass: BiquadFilter | null = null;
+  private notches: BiquadFilter[] = [];
+  private chain: BiquadFilter[] = [];
+  private chainSignature = "";
+  private hum: HumFrequency | null = null;
+  private humDetector: HumDetector | null = null;
+  private frameStart = 0;   // stream position of the current frame's first sample
+  private humFedTo = 0;     // stream position up to which the hum detector has samples
+  private humOptions = { harmonics: 4, Q: 30, cutDb: 0 };
+  private signature = "";
+  private humSignature = "";
+
+  constructor(sampleRate: number, config: DSPConfig) {
+    this.sampleRate = sampleRate;
+    this.configure(config);
+  }
+
+  /**
+   * Sync filters with config; no-op when cutoffs/Q, hum settings and the chain are unchanged
+   */
+  configure(config: DSPConfig): void {
+    this.configureHum(config);
+    const chainSignature = JSON.stringify(config.filterChain ?? []);
+    if (chainSignature !== this.chainSignature) {
+      this.chainSignature = chainSignature;
+      this.chain = (config.filterChain ?? []).flatMap((stage) => createFilterStage(stage, this.sampleRate));
+    }
+    const highPassQ = config.highPassQ ?? 0.707;
+    const lowPassQ = config.lowPassQ ?? 0.707;
+    const signature = [config.highPassCutoff, highPassQ, config.lowPassCutoff, lowPassQ].join("|");
+    if (signature === this.signature) return;
+    this.signature = signature;
+
+    this.highPass = config.highPassCutoff > 0
+      ? createHighPassFilter(config.highPassCutoff, this.sampleRate, highPassQ)
+      : null;
+    this.lowPass = config.lowPassCutoff > 0
+      ? createLowPassFilter(config.lowPassCutoff, this.sampleRate, lowPassQ)
+      : null;
+  }
+
+  /** Mains frequency being notched (fixed or detected), null when none */
+  get humFrequency(): HumFrequency | null {
+    return this.hum;
+  }
+
+  /**
+   * Gain and phase of every filter in the bank together (HPF, hum notches,
+   * LPF, chain) at each frequency
+   */
+  frequencyResponse(frequencies: number[]): FrequencyResponsePoint[] {
+    const filters = [this.highPass, ...this.notches, this.lowPass, ...this.chain].filter(
+      (f): f is BiquadFilter => f !== null
     );
-    processed = lp.processFrame(processed);
+    return cascadeResponse(filters, this.sampleRate, frequencies);
+  }
+
+  /**
+   * @param advance samples to the next frame's start (see BiquadFilter.processFrame)
+   */
+  processFrame(frame: Float32Array, advance: number = frame.length): Float32Array {
+    if (this.humDetector && this.hum === null) {
+      // Only samples past those already pushed, so overlapping frames reach
+      // the detector once and in order
+      const fresh = frame.subarray(Math.max(0, Math.min(frame.length, this.humFedTo - this.frameStart)));
+      const detection = this.humDetector.push(fresh);
+      if (detection) this.buildNotches(detection.frequency);
+    }
+    this.humFedTo = Math.max(this.humFedTo, this.frameStart + frame.length);
+    this.frameStart += advance;
+    let processed = frame;
+    if (this.highPass) processed = this.highPass.processFrame(processed, advance);
+    for (const notch of this.notches) processed = notch.processFrame(processed, advance);
+    if (this.lowPass) processed = this.lowPass.processFrame(processed, advance);
+    for (const stage of this.chain) processed = stage.processFrame(processed, advance);
+    return processed;
+  }
+
+  /**
+   * Clear state of every filter without rebuilding them
+   */
+  reset(): void {
+    this.frameStart = 0;
+    this.humFedTo = 0;
+    this.highPass?.reset();
+    this.lowPass?.reset();
+    for (const notch of this.notches) notch.reset();
+    for (const stage of this.chain) stage.reset();
+  }
+
+  private configureHum(config: DSPConfig): void {
+    const mode = config.humFilter ?? "off";
+    this.humOptions = {
+      harmonics: config.humHarmonics ?? 4,
+      Q: config.humNotchQ ?? 30,
+      cutDb: config.humCutDb ?? 0,
+    };
+    const signature = [mode, this.humOptions.harmonics, this.humOptions.Q, this.humOptions.cutDb].join("|");
+    if (signature === this.humSignature) return;
+    this.humSignature = signature;
+
+    if (mode === "auto") {
+      // Keep an earlier detection when only the notch shape changes
+      if (!this.humDetector) this.humDetector = new HumDetector(this.sampleRate);
+      this.buildNotches(this.humDetector.result?.frequency ?? null);
+    } else {
+      this.humDetector = null;
+      this.buildNotches(humFrequencyFor(mode));
+    }
   }
 
-  return processed;
+  private buildNotches(frequency: HumFrequency | null): void {
+    this.hum = frequency;
+    const { harmonics, Q, cutDb } = this.humOptions;
+    this.notches = frequency ? createHumFilters(frequency, this.sampleRate, harmonics, Q, cutDb) : [];
+  }
+}
+
+/**
+ * Gain and phase of a cascade of biquads at each frequency
+ */
+export function cascadeResponse(
+  filters: BiquadFilter[],
+  sampleRate: number,
+  frequencies: number[]
+): FrequencyResponsePoint[] {
+  return frequencies.map((frequency) => {
+    let re = 1;
+    let im = 0;
+    for (const filter of filters) {
+      const h = filter.response(frequency, sampleRate);
+      [re, im] = [re * h.re - im * h.im, re * h.im + im * h.re];
+    }
+    const magnitude = Math.hypot(re, im);
+    return {
+      frequency,
+      magnitudeDb: magnitude > 0 ? 20 * Math.log10(magnitude) : -Infinity,
+      phase: (Math.atan2(im, re) * 180) / Math.PI,
+    };
+  });
+}
+
+/**
+ * Frequency response of the filters a config builds at this rate (humFilter
+ * "auto" counts as no hum found)
+ * @param frequencies default: logFrequencies(20, Nyquist, 64)
+ */
+export function filterResponse(
+  config: DSPConfig,
+  sampleRate: number,
+  frequencies: number[] = logFrequencies(20, sampleRate / 2, 64)
+): FrequencyResponsePoint[] {
+  return new FilterBank(sampleRate, config).frequencyResponse(frequencies);
+}
+
+/**
+ * `count` log-spaced frequencies from `min` to `max` (both included)
+ */
+export function logFrequencies(min: number, max: number, count: number): number[] {
+  if (count <= 1) return [min];
+  const ratio = Math.pow(max / min, 1 / (count - 1));
+  return Array.from({ length: count }, (_, i) => min * Math.pow(ratio, i));
+}
+
+/**
+ * Apply the configured filters (HPF, hum notches, LPF, chain)
+ * One-shot helper: filters start from zero state on every call, and
+ * humFilter "auto" is detected from this frame alone.
+ * Use `FilterBank` to keep state across frames.
+ */
+export function applyFilters(
+  frame: Float32Array,
+  sampleRate: number,
+  config: DSPConfig
+): Float32Array {
+  return new FilterBank(sampleRate, resolveHumFilter(config, frame, sampleRate).config).processFrame(frame);
 }
@@ -0,0 +1,127 @@
+// core/dsp/framing.ts
+// Shared frame iterator: fixed-size analysis frames stepped by a hop size
+
+import type { DSPConfig } from "./dsp-config.js";
+
+export interface AudioFrame {
+  /** Frame number, starting at 0 */
+  index: number;
+  /** Sample offset of the frame start within the iterated buffer */
+  start: number;
+  /** Frame centre in seconds (includes `startOffset` given to iterateFrames) */
+  time: number;
+  /** Samples from this frame's start to the next one's, i.e. the hop size (pass to ProcessOptions.hop) */
+  hop: number;
+  /** View into the source buffer (not a copy) */
+  frame: Float32Array;
+}
+
+/**
+ * Effective hop size for a config: falls back to frameSize (no overlap)
+ * when hopSize is missing or not a positive number.
+ */
+export function resolveHopSize(config: Pick<DSPConfig, "frameSize" | "hopSize">): number {
+  const hop = Math.floor(config.hopSize ?? 0);
+  return hop > 0 ? hop : config.frameSize;
+}
+
+/**
+ * Walk `audio` in frames of `frameSize` samples, stepping by `hopSize`.
+ * Only full frames are produced; a trailing partial frame is dropped.
+ * @param startOffset samples already skipped before `audio` (used for `time`)
+ */
+export function* iterateFrames(
+  audio: Float32Array,
+  frameSize: number,
+  hopSize: number,
+  sampleRate: number,
+  startOffset: number = 0
+): Generator<AudioFrame> {
+  if (frameSize <= 0 || hopSize <= 0) {
+    throw new Error(`Invalid framing: frameSize=${frameSize}, hopSize=${hopSize}`);
+  }
+  let index = 0;
+  for (let start = 0; start + frameSize <= audio.length; start += hopSize) {
+    yield {
+      index,
+      start,
+      time: (startOffset + start + frameSize / 2) / sampleRate,
+      hop: hopSize,
+      frame: audio.subarray(start, start + frameSize),
+    };
+    index++;
+  }
+}
+
+/**
+ * FrameAccumulator
+ * Streaming counterpart of iterateFrames for audio that arrives in chunks of
+ * any length (live input, resampler output): push() returns the full frames
+ * completed by each chunk, with the same index/start/time/hop semantics.
+ */
+export class FrameAccumulator {
+  private readonly frameSize: number;
+  private readonly hopSize: number;
+  private readonly sampleRate: number;
+  private buffer: Float32Array;
+  private filled = 0;
+  private bufferStart = 0;   // stream position of buffer[0]
+  private nextStart = 0;     // stream position of the next frame start
+  private index = 0;
+
+  constructor(frameSize: number, hopSize: number, sampleRate: number) {
+    if (frameSize <= 0 || hopSize <= 0) {
+      throw new Error(`Invalid framing: frameSize=${frameSize}, hopSize=${hopSize}`);
+    }
+    this.frameSize = frameSize;
+    this.hopSize = hopSize;
+    this.sampleRate = sampleRate;
+    this.buffer = new Float32Array(frameSize * 2);
+  }
+
+  /**
+   * Append a chunk; returned frames are copies and stay valid after later pushes
+   */
+  push(chunk: Float32Array): AudioFrame[] {
+    this.ensureCapacity(this.filled + chunk.length);
+    this.buffer.set(chunk, this.filled);
+    this.filled += chunk.length;
+
+    const frames: AudioFrame[] = [];
+    while (this.nextStart + this.frameSize <= this.bufferStart + this.filled) {
+      const offset = this.nextStart - this.bufferStart;
+      frames.push({
+        index: this.index,
+        start: this.nextStart,
+        time: (this.nextStart + this.frameSize / 2) / this.sampleRate,
+        hop: this.hopSize,
+        frame: this.buffer.slice(offset, offset + this.frameSize),
+      });
+      this.index++;
+      this.nextStart += this.hopSize;
+    }
+
+    // Discard samples before the next frame start (hop > frameSize skips input)
+    const drop = Math.min(this.filled, this.nextStart - this.bufferStart);
+    if (drop > 0) {
+      this.buffer.copyWithin(0, drop, this.filled);
+      this.filled -= drop;
+      this.bufferStart += drop;
+    }
+    return frames;
+  }
+
+  reset(): void {
+    this.filled = 0;
+    this.bufferStart = 0;
+    this.nextStart = 0;
+    this.index = 0;
+  }
+
+  private ensureCapacity(size: number): void {
+    if (size <= this.buffer.length) return;
+    const next = new Float32Array(Math.max(size, this.buffer.length * 2));
+    next.set(this.buffer.subarray(0, this.filled));
+    this.buffer = next;
+  }
+}
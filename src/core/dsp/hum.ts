@@ -0,0 +1,165 @@
+// core/dsp/hum.ts
+// Mains hum detection: decides between 50 and 60 Hz from how far the mains
+// frequency and its first harmonics stand out of the spectrum around them.
+
+/** Mains frequencies the detector chooses between */
+export type HumFrequency = 50 | 60;
+
+export const HUM_FREQUENCIES: readonly HumFrequency[] = [50, 60];
+
+/** Hum notch setting: off, detected from the input, or a fixed mains frequency */
+export type HumFilterMode = "off" | "auto" | "50" | "60";
+
+export const HUM_FILTER_MODES: readonly HumFilterMode[] = ["off", "auto", "50", "60"];
+
+/** Hum must stand this far above its neighbouring bands to count (dB) */
+export const HUM_MIN_PROMINENCE_DB = 10;
+
+/** detectHum looks at no more than this much audio (seconds) */
+export const HUM_DETECT_MAX_SECONDS = 30;
+
+/** Harmonics measured per candidate (50, 100, 150 and 60, 120, 180 Hz never share a band) */
+const DETECT_HARMONICS = 3;
+
+export interface HumDetection {
+  frequency: HumFrequency;
+  /** Power at the mains frequency and harmonics over the bands 2 bins beside them (dB) */
+  prominenceDb: number;
+  /** Hum RMS relative to the RMS of the analyzed audio (dB) */
+  levelDb: number;
+}
+
+/** Fixed mains frequency of a mode; null for "off" and "auto" */
+export function humFrequencyFor(mode: HumFilterMode): HumFrequency | null {
+  return mode === "50" ? 50 : mode === "60" ? 60 : null;
+}
+
+/**
+ * HumDetector
+ * Collects input into blocks (1 s by default, 1 Hz resolution) and measures
+ * each candidate's harmonics against the bands 2 bins either side, where a
+ * steady Hann-windowed tone has a null. The sums build up over blocks, so
+ * the result firms up the longer the input runs.
+ */
+export class HumDetector {
+  private readonly blockSize: number;
+  private readonly block: Float32Array;
+  private readonly window: Float64Array;
+  private readonly windowSum: number;
+  private filled = 0;
+  private readonly tone = new Float64Array(HUM_FREQUENCIES.length);
+  private readonly beside = new Float64Array(HUM_FREQUENCIES.length);
+  private readonly humPower = new Float64Array(HUM_FREQUENCIES.length);
+  private signalPower = 0;
+  private detection: HumDetection | null = null;
+
+  constructor(private readonly sampleRate: number, blockSeconds: number = 1) {
+    this.blockSize = Math.max(1, Math.floor(blockSeconds * sampleRate));
+    this.block = new Float32Array(this.blockSize);
+    this.window = new Float64Array(this.blockSize);
+    let windowSum = 0;
+    for (let i = 0; i < this.blockSize; i++) {
+      this.window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / Math.max(1, this.blockSize - 1));
+      windowSum += this.window[i];
+    }
+    this.windowSum = windowSum;
+  }
+
+  /**
+   * Add input samples
+   * @returns the detection so far (updated after every full block)
+   */
+  push(samples: Float32Array): HumDetection | null {
+    let offset = 0;
+    while (offset < samples.length) {
+      const count = Math.min(samples.length - offset, this.blockSize - this.filled);
+      this.block.set(samples.subarray(offset, offset + count), this.filled);
+      this.filled += count;
+      offset += count;
+      if (this.filled === this.blockSize) {
+        this.measureBlock();
+        this.filled = 0;
+      }
+    }
+    return this.detection;
+  }
+
+  /** Strongest candidate above HUM_MIN_PROMINENCE_DB, null when there is none (yet) */
+  get result(): HumDetection | null {
+    return this.detection;
+  }
+
+  /** Forget every block measured so far */
+  reset(): void {
+    this.filled = 0;
+    this.tone.fill(0);
+    this.beside.fill(0);
+    this.humPower.fill(0);
+    this.signalPower = 0;
+    this.detection = null;
+  }
+
+  private measureBlock(): void {
+    const n = this.blockSize;
+    const { block, window, windowSum } = this;
+    let meanSquare = 0;
+    for (let i = 0; i < n; i++) meanSquare += block[i] * block[i];
+    this.signalPower += meanSquare / n;
+
+    // Two bins either side: the first null of a Hann-windowed steady tone
+    const offset = (2 * this.sampleRate) / n;
+    HUM_FREQUENCIES.forEach((mains, c) => {
+      for (let h = 1; h <= DETECT_HARMONICS; h++) {
+        const f = mains * h;
+        if (f + offset >= this.sampleRate * 0.45) break;
+        const power = goertzelPower(block, window, f, this.sampleRate);
+        this.tone[c] += power;
+        this.beside[c] +=
+          (goertzelPower(block, window, f - offset, this.sampleRate) +
+            goertzelPower(block, window, f + offset, this.sampleRate)) / 2;
+        // Amplitude 2|X| / Σw; a sine's power is amplitude² / 2
+        this.humPower[c] += (2 * power) / (windowSum * windowSum);
+      }
+    });
+    this.detection = this.decide();
+  }
+
+  private decide(): HumDetection | null {
+    let best: HumDetection | null = null;
+    HUM_FREQUENCIES.forEach((frequency, c) => {
+      if (this.tone[c] <= 0) return;
+      const prominenceDb = this.beside[c] > 0 ? 10 * Math.log10(this.tone[c] / this.beside[c]) : Infinity;
+      if (prominenceDb < HUM_MIN_PROMINENCE_DB) return;
+      if (best && best.prominenceDb >= prominenceDb) return;
+      const levelDb = this.signalPower > 0 ? 10 * Math.log10(this.humPower[c] / this.signalPower) : 0;
+      best = { frequency, prominenceDb, levelDb };
+    });
+    return best;
+  }
+}
+
+/**
+ * Mains hum in a stretch of audio (at least 0.5 s; the first
+ * HUM_DETECT_MAX_SECONDS are measured)
+ * @returns null when the audio is too short or neither 50 nor 60 Hz stands out
+ */
+export function detectHum(audio: Float32Array, sampleRate: number): HumDetection | null {
+  const seconds = Math.min(audio.length / sampleRate, HUM_DETECT_MAX_SECONDS);
+  // Below 0.5 s the bins are too wide to tell 50 from 60 Hz
+  if (seconds < 0.5) return null;
+  const detector = new HumDetector(sampleRate, Math.min(1, seconds));
+  return detector.push(audio.subarray(0, Math.floor(seconds * sampleRate)));
+}
+
+/** |Σ w[n]·x[n]·e^(−jωn)|² at one frequency (Goertzel recurrence) */
+function goertzelPower(x: Float32Array, window: Float64Array, frequency: number, sampleRate: number): number {
+  const coeff = 2 * Math.cos((2 * Math.PI * frequency) / sampleRate);
+  let s1 = 0;
+  let s2 = 0;
+  for (let i = 0; i < x.length; i++) {
+    const s0 = x[i] * window[i] + coeff * s1 - s2;
+    s2 = s1;
+    s1 = s0;
+  }
+  return s1 * s1 + s2 * s2 - coeff * s1 * s2;
+}
@@ -48,12 +48,58 @@ export function softNoiseGate(
   return out;
 }
 
+/** Lowest noise floor the tracker reports (-100 dBFS), so it can rise again after digital silence */
+const MIN_NOISE_FLOOR = 1e-5;
+
+/**
+ * Noise floor follower for the adaptive gate
+ * Drops to any quieter frame at once and rises at most `riseDbPerSecond`
+ * otherwise; `hold` keeps it from rising (pass true while a note sounds, so a
+ * long note isn't taken for noise).
+ */
+export class NoiseFloorTracker {
+  private level: number | null;
+
+  constructor(private readonly riseDbPerSecond: number = 3, initial?: number) {
+    this.level = initial !== undefined ? Math.max(MIN_NOISE_FLOOR, initial) : null;
+  }
+
+  /** Feed one frame's RMS; `seconds` is the time since the previous frame */
+  push(rms: number, seconds: number, hold: boolean = false): number {
+    const value = Math.max(MIN_NOISE_FLOOR, rms);
+    if (this.level === null || value <= this.level) {
+      this.level = value;
+    } else if (!hold) {
+      this.level = Math.min(value, this.level * Math.pow(10, (this.riseDbPerSecond * seconds) / 20));
+    }
+    return this.level;
+  }
+
+  /** Current floor (null before the first frame) */
+  get floor(): number | null {
+    return this.level;
+  }
+
+  reset(initial?: number): void {
+    this.level = initial !== undefined ? Math.max(MIN_NOISE_FLOOR, initial) : null;
+  }
+}
+
+/**
+ * Adaptive gate threshold: `marginDb` above the tracked noise floor
+ */
+export function adaptiveGateThreshold(noiseFloor: number, marginDb: number): number {
+  return noiseFloor * Math.pow(10, marginDb / 20);
+}
+
 /**
  * Full noise utility wrapper (optional helper)
+ * `gateThreshold` replaces config.noiseGateThreshold (adaptive gate).
  */
 export function applyNoiseControl(
   frame: Float32Array,
-  config: DSPConfig
+  config: DSPConfig,
+  gateThreshold: number = config.noiseGateThreshold
 ): Float32Array {
   let processed = frame;
 
@@ -62,7 +108,7 @@ export function applyNoiseControl(
   }
 
   if (config.enableNoiseGate) {
-    processed = softNoiseGate(processed, config.noiseGateThreshold);
+    processed = softNoiseGate(processed, gateThreshold);
   }
 
   return processed;
@@ -0,0 +1,92 @@
+// core/dsp/presets.ts
+// Named DSP presets (built in, or user files resolved by the caller) and
+// resolution of `extends` chains into one partial config.
+
+import type { DSPConfig } from "./dsp-config.js";
+import { DSP_CONFIG_VERSION } from "./config-schema.js";
+import type { DSPConfigFile } from "./config-schema.js";
+
+export const BUILTIN_PRESETS: Record<string, DSPConfigFile> = {
+  "default": {
+    version: DSP_CONFIG_VERSION,
+    name: "default",
+    description: "Embedded defaults: general purpose, 2048-sample frames, 75% overlap",
+    config: {},
+  },
+  "voice": {
+    version: DSP_CONFIG_VERSION,
+    name: "voice",
+    description: "Singing and speech: 70–1100 Hz, heavier smoothing against vibrato jitter",
+    config: {
+      highPassCutoff: 60,
+      lowPassCutoff: 5000,
+      minFrequency: 70,
+      maxFrequency: 1100,
+      medianWindowSize: 7,
+      movingAverageAlpha: 0.3,
+      voicingMaxAperiodicity: 0.3,
+    },
+  },
+  "bass": {
+    version: DSP_CONFIG_VERSION,
+    name: "bass",
+    description: "Bass guitar and double bass: 28–420 Hz, 4096-sample frames for the low lags",
+    config: {
+      highPassCutoff: 20,
+      lowPassCutoff: 1500,
+      minFrequency: 28,
+      maxFrequency: 420,
+      frameSize: 4096,
+      hopSize: 1024,
+    },
+  },
+  "noisy-room": {
+    version: DSP_CONFIG_VERSION,
+    name: "noisy-room",
+    description: "Background noise: higher gate and stricter voicing, rumble filtered to 80 Hz",
+    config: {
+      highPassCutoff: 80,
+      noiseGateThreshold: 0.05,
+      voicingMinRMS: 0.03,
+      voicingMaxAperiodicity: 0.25,
+      voicingMinConfidence: 0.75,
+      medianWindowSize: 7,
+      movingAverageAlpha: 0.25,
+    },
+  },
+};
+
+export const BUILTIN_PRESET_NAMES = Object.keys(BUILTIN_PRESETS);
+
+/** Finds a preset by name; null when there is none */
+export type PresetLookup = (name: string) => DSPConfigFile | null;
+
+export const builtinPresetLookup: PresetLookup = (name) => BUILTIN_PRESETS[name] ?? null;
+
+/**
+ * Fields of `file` on top of everything it extends (base first)
+ * @throws Error for an unknown preset in the chain or an extends cycle
+ */
+export function resolveConfigFile(
+  file: DSPConfigFile,
+  lookup: PresetLookup = builtinPresetLookup,
+  source: string = file.name ?? "config"
+): Partial<DSPConfig> {
+  const chain: DSPConfigFile[] = [file];
+  const seen = new Set<string>(file.name ? [file.name] : []);
+  let current = file;
+  while (current.extends) {
+    const name = current.extends;
+    if (seen.has(name)) {
+      throw new Error(`${source}: extends cycle (${[...seen, name].join(" → ")})`);
+    }
+    const base = lookup(name);
+    if (!base) {
+      throw new Error(`${source}: unknown preset "${name}" in extends (built in: ${BUILTIN_PRESET_NAMES.join(", ")})`);
+    }
+    seen.add(name);
+    chain.unshift(base);
+    current = base;
+  }
+  return chain.reduce<Partial<DSPConfig>>((merged, layer) => ({ ...merged, ...layer.config }), {});
+}
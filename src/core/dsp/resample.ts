@@ -0,0 +1,184 @@
+// core/dsp/resample.ts
+// Band-limited sample-rate conversion (Kaiser-windowed sinc, arbitrary ratio)
+
+import type { DSPConfig } from "./dsp-config.js";
+
+export interface ResamplerOptions {
+  /** Sinc zero crossings on each side of the kernel (default 16) */
+  zeroCrossings?: number;
+  /** Cutoff as a fraction of the lower Nyquist frequency (default 0.945) */
+  rolloff?: number;
+  /** Kaiser window beta (default 8.6 ≈ 80 dB stopband) */
+  kaiserBeta?: number;
+}
+
+const TABLE_RESOLUTION = 256; // kernel samples per zero crossing
+
+/** Modified Bessel function of the first kind, order 0 (series expansion) */
+function besselI0(x: number): number {
+  let sum = 1;
+  let term = 1;
+  const half = x / 2;
+  for (let k = 1; k < 50; k++) {
+    term *= (half / k) * (half / k);
+    sum += term;
+    if (term < sum * 1e-12) break;
+  }
+  return sum;
+}
+
+/**
+ * Resampler
+ * Streaming converter: feed chunks with process(), call flush() at the end.
+ * Output sample n sits at input time n · fromRate / toRate, so the signal is
+ * not delayed. The kernel is tabulated once and linearly interpolated.
+ */
+export class Resampler {
+  readonly fromRate: number;
+  readonly toRate: number;
+  private readonly step: number;        // input samples per output sample
+  private readonly scale: number;       // cutoff scaling (< 1 when downsampling)
+  private readonly halfWidth: number;   // kernel half width in input samples
+  private readonly zeroCrossings: number;
+  private readonly table: Float64Array;
+
+  private buffer = new Float32Array(0);
+  private time = 0;                     // next output position, in buffer samples
+  private inputCount = 0;
+  private outputCount = 0;
+
+  constructor(fromRate: number, toRate: number, options: ResamplerOptions = {}) {
+    if (!(fromRate > 0) || !(toRate > 0)) {
+      throw new Error(`Invalid resampling rates: ${fromRate} → ${toRate} Hz`);
+    }
+    this.fromRate = fromRate;
+    this.toRate = toRate;
+    this.step = fromRate / toRate;
+    this.zeroCrossings = options.zeroCrossings ?? 16;
+    this.scale = Math.min(1, toRate / fromRate) * (options.rolloff ?? 0.945);
+    this.halfWidth = this.zeroCrossings / this.scale;
+
+    // sinc(x) · kaiser(x / zeroCrossings) for x in [0, zeroCrossings]
+    const beta = options.kaiserBeta ?? 8.6;
+    const size = this.zeroCrossings * TABLE_RESOLUTION + 2;
+    this.table = new Float64Array(size);
+    const i0Beta = besselI0(beta);
+    for (let i = 0; i < size; i++) {
+      const x = i / TABLE_RESOLUTION;
+      const u = Math.min(1, x / this.zeroCrossings);
+      const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+      this.table[i] = sinc * (besselI0(beta * Math.sqrt(1 - u * u)) / i0Beta);
+    }
+    this.reset();
+  }
+
+  /**
+   * Convert the next chunk; returns every output sample that is complete
+   */
+  process(chunk: Float32Array): Float32Array {
+    this.inputCount += chunk.length;
+    this.append(chunk);
+    return this.drain(Infinity);
+  }
+
+  /**
+   * End of stream: pad with silence and return the remaining output, so the
+   * total length is round(inputLength · toRate / fromRate)
+   */
+  flush(): Float32Array {
+    this.append(new Float32Array(Math.ceil(this.halfWidth) + 1));
+    const expected = Math.round((this.inputCount * this.toRate) / this.fromRate);
+    return this.drain(Math.max(0, expected - this.outputCount));
+  }
+
+  reset(): void {
+    // Leading zeros stand in for the signal before the first sample
+    const lead = Math.ceil(this.halfWidth);
+    this.buffer = new Float32Array(lead);
+    this.time = lead;
+    this.inputCount = 0;
+    this.outputCount = 0;
+  }
+
+  private append(chunk: Float32Array): void {
+    const next = new Float32Array(this.buffer.length + chunk.length);
+    next.set(this.buffer, 0);
+    next.set(chunk, this.buffer.length);
+    this.buffer = next;
+  }
+
+  private drain(limit: number): Float32Array {
+    const out: number[] = [];
+    const buf = this.buffer;
+    while (out.length < limit && this.time + this.halfWidth < buf.length - 1) {
+      const t = this.time;
+      const first = Math.max(0, Math.ceil(t - this.halfWidth));
+      const last = Math.min(buf.length - 1, Math.floor(t + this.halfWidth));
+      let sum = 0;
+      for (let k = first; k <= last; k++) {
+        sum += buf[k] * this.kernel((t - k) * this.scale);
+      }
+      out.push(sum * this.scale);
+      this.time += this.step;
+    }
+    this.outputCount += out.length;
+
+    // Drop input that no future output can reach
+    const keepFrom = Math.max(0, Math.floor(this.time - this.halfWidth) - 1);
+    if (keepFrom > 0) {
+      this.buffer = buf.slice(keepFrom);
+      this.time -= keepFrom;
+    }
+    return Float32Array.from(out);
+  }
+
+  private kernel(x: number): number {
+    const pos = Math.abs(x) * TABLE_RESOLUTION;
+    const i = Math.floor(pos);
+    if (i >= this.table.length - 1) return 0;
+    const frac = pos - i;
+    return this.table[i] + frac * (this.table[i + 1] - this.table[i]);
+  }
+}
+
+/**
+ * One-shot conversion of a whole buffer
+ */
+export function resample(
+  input: Float32Array,
+  fromRate: number,
+  toRate: number,
+  options: ResamplerOptions = {}
+): Float32Array {
+  if (fromRate === toRate) return input;
+  const resampler = new Resampler(fromRate, toRate, options);
+  const head = resampler.process(input);
+  const tail = resampler.flush();
+  const out = new Float32Array(head.length + tail.length);
+  out.set(head, 0);
+  out.set(tail, head.length);
+  return out;
+}
+
+/**
+ * Target rate for analysis: `analysisSampleRate` when set, else the input rate
+ */
+export function resolveAnalysisRate(
+  sampleRate: number,
+  config: Pick<DSPConfig, "analysisSampleRate">
+): number {
+  const target = config.analysisSampleRate ?? 0;
+  return target > 0 ? target : sampleRate;
+}
+
+/**
+ * Bring a whole buffer to the configured analysis rate (no-op when unset)
+ */
+export function resampleToAnalysisRate(
+  audio: Float32Array,
+  sampleRate: number,
+  config: Pick<DSPConfig, "analysisSampleRate">
+): { audio: Float32Array; sampleRate: number } {
+  const target = resolveAnalysisRate(sampleRate, config);
+  return { audio: resample(audio, sampleRate, target), sampleRate: target };
+}
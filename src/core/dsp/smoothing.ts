@@ -24,6 +24,10 @@ export class MedianSmoother {
     const sorted = [...this.window].sort((a, b) => a - b);
     return sorted[Math.floor(sorted.length / 2)];
   }
+
+  reset(): void {
+    this.window = [];
+  }
 }
 
 /**
@@ -45,4 +49,8 @@ export class MovingAverage {
     }
     return this.smoothed;
   }
+
+  reset(): void {
+    this.smoothed = null;
+  }
 }
@@ -0,0 +1,62 @@
+// core/dsp/voicing.ts
+// Voiced/unvoiced decision per frame from RMS, YIN aperiodicity,
+// zero-crossing rate and detector confidence.
+
+import type { DSPConfig } from "./dsp-config.js";
+
+/** Why a frame was classified unvoiced */
+export type UnvoicedReason = "silence" | "noise" | "no-pitch" | "low-confidence";
+
+export interface VoicingFeatures {
+  /** Detected frequency (null when the detector found none) */
+  pitch: number | null;
+  /** Detector confidence 0–1 */
+  confidence: number;
+  /** Frame RMS after filters */
+  frameRMS: number;
+  /** YIN aperiodicity (CMND minimum, 0 = periodic) */
+  aperiodicity: number;
+  /** Sign changes per sample pair (0–1) */
+  zeroCrossingRate: number;
+}
+
+export interface VoicingDecision {
+  voiced: boolean;
+  reason?: UnvoicedReason;
+}
+
+/**
+ * Share of adjacent sample pairs whose sign differs (0–1).
+ * A tone at f Hz gives about 2f / sampleRate; white noise about 0.5.
+ */
+export function zeroCrossingRate(frame: Float32Array): number {
+  if (frame.length < 2) return 0;
+  let crossings = 0;
+  for (let i = 1; i < frame.length; i++) {
+    if ((frame[i - 1] >= 0) !== (frame[i] >= 0)) crossings++;
+  }
+  return crossings / (frame.length - 1);
+}
+
+/**
+ * Classify a frame. Checks run in order, first match wins:
+ * 1. silence        — frameRMS below voicingMinRMS
+ * 2. noise          — aperiodicity above voicingMaxAperiodicity, or zero-crossing
+ *                     rate above voicingMaxZeroCrossingRate (0 disables)
+ * 3. no-pitch       — periodic enough, but no F0 in range
+ * 4. low-confidence — confidence below voicingMinConfidence
+ */
+export function classifyVoicing(features: VoicingFeatures, config: DSPConfig): VoicingDecision {
+  const minRMS = config.voicingMinRMS ?? 0;
+  const maxAperiodicity = config.voicingMaxAperiodicity ?? 1;
+  const maxZCR = config.voicingMaxZeroCrossingRate ?? 0;
+  const minConfidence = config.voicingMinConfidence ?? 0;
+
+  if (features.frameRMS < minRMS) return { voiced: false, reason: "silence" };
+  if (features.aperiodicity > maxAperiodicity || (maxZCR > 0 && features.zeroCrossingRate > maxZCR)) {
+    return { voiced: false, reason: "noise" };
+  }
+  if (features.pitch === null || !(features.pitch > 0)) return { voiced: false, reason: "no-pitch" };
+  if (features.confidence < minConfidence) return { voiced: false, reason: "low-confidence" };
+  return { voiced: true };
+}
@@ -0,0 +1,72 @@
+// core/instruments.ts
+// Instrument/voice presets for the F0 search range, and frame-size fitting
+
+import { requiredFrameSize } from "./yin.js";
+import { nextPowerOfTwo } from "./dsp/fft.js";
+import type { DSPConfig } from "./dsp/dsp-config.js";
+
+export type InstrumentName =
+  | "piano"
+  | "guitar"
+  | "bass-guitar"
+  | "violin"
+  | "viola"
+  | "cello"
+  | "double-bass"
+  | "flute"
+  | "soprano"
+  | "alto"
+  | "tenor"
+  | "bass-voice";
+
+export interface InstrumentRange {
+  label: string;
+  /** Lowest F0 in Hz (a little below the lowest note, for flat playing) */
+  minFrequency: number;
+  /** Highest F0 in Hz (a little above the highest usual note) */
+  maxFrequency: number;
+}
+
+export const INSTRUMENT_PRESETS: Record<InstrumentName, InstrumentRange> = {
+  "piano":       { label: "Piano (A0–C8)",               minFrequency: 26,  maxFrequency: 4300 },
+  "guitar":      { label: "Guitar (E2–E6)",              minFrequency: 75,  maxFrequency: 1400 },
+  "bass-guitar": { label: "Bass guitar (B0–G4)",         minFrequency: 29,  maxFrequency: 420 },
+  "violin":      { label: "Violin (G3–E7)",              minFrequency: 180, maxFrequency: 2800 },
+  "viola":       { label: "Viola (C3–E6)",               minFrequency: 120, maxFrequency: 1400 },
+  "cello":       { label: "Cello (C2–C6)",               minFrequency: 60,  maxFrequency: 1100 },
+  "double-bass": { label: "Double bass (C1–G4)",         minFrequency: 30,  maxFrequency: 420 },
+  "flute":       { label: "Flute (C4–C7)",               minFrequency: 240, maxFrequency: 2200 },
+  "soprano":     { label: "Soprano voice (C4–C6)",       minFrequency: 240, maxFrequency: 1100 },
+  "alto":        { label: "Alto voice (F3–F5)",          minFrequency: 160, maxFrequency: 750 },
+  "tenor":       { label: "Tenor voice (C3–C5)",         minFrequency: 120, maxFrequency: 560 },
+  "bass-voice":  { label: "Bass voice (E2–E4)",          minFrequency: 75,  maxFrequency: 350 },
+};
+
+export const INSTRUMENT_NAMES = Object.keys(INSTRUMENT_PRESETS) as InstrumentName[];
+
+/**
+ * Config with the preset's frequency range applied
+ * @throws Error for an unknown preset name
+ */
+export function applyInstrumentPreset<T extends Partial<DSPConfig>>(config: T, name: string): T {
+  const preset = INSTRUMENT_PRESETS[name as InstrumentName];
+  if (!preset) {
+    throw new Error(`Unknown instrument "${name}" (use ${INSTRUMENT_NAMES.join(", ")})`);
+  }
+  return { ...config, minFrequency: preset.minFrequency, maxFrequency: preset.maxFrequency };
+}
+
+/**
+ * Config whose frameSize is long enough for its minFrequency at this sample
+ * rate: grows frameSize to the next power of two when needed, never shrinks it.
+ */
+export function fitFrameSize<T extends Pick<DSPConfig, "frameSize" | "minFrequency">>(
+  config: T,
+  sampleRate: number
+): T {
+  const minFrequency = config.minFrequency ?? 0;
+  if (minFrequency <= 0) return config;
+  const required = requiredFrameSize(minFrequency, sampleRate);
+  if (config.frameSize >= required) return config;
+  return { ...config, frameSize: nextPowerOfTwo(required) };
+}
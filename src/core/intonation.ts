@@ -0,0 +1,244 @@
+// core/intonation.ts
+// Intonation statistics over a pitch contour: central pitch, spread in cents,
+// drift, time within tolerance and vibrato rate/extent measured cycle by cycle.
+
+import type { PitchResult } from "./pitch-engine.js";
+import { DEFAULT_TOLERANCE_CENTS } from "./pitch-engine.js";
+import { centsOffFromReference, frequencyToNote, parseExpectedNote } from "./note-utils.js";
+import type { TuningConfig } from "./note-utils.js";
+
+export interface IntonationOptions {
+  /** Target for every frame ("A4", "440" or Hz); without it each frame is compared to its nearest note */
+  expectedNote?: string | number;
+  /** Tuning for note names and targets */
+  tuning?: TuningConfig;
+  /** In-tune window, ± cents (default DEFAULT_TOLERANCE_CENTS) */
+  tolerance?: number;
+  /** Vibrato rates searched, Hz (default 3–12) */
+  minVibratoRate?: number;
+  maxVibratoRate?: number;
+  /** Smaller oscillations are not reported as vibrato, ± cents (default 10) */
+  minVibratoExtent?: number;
+}
+
+export interface VibratoStats {
+  /** Oscillations per second (Hz) */
+  rate: number;
+  /** Mean excursion from the centre line, ± cents (half the peak-to-peak width) */
+  extent: number;
+  /** Full cycles measured */
+  cycles: number;
+}
+
+export interface IntonationStats {
+  voicedFrames: number;
+  /** Voiced time in seconds (voiced frames × frame step) */
+  voicedDuration: number;
+  /** Mean / median of the voiced frequencies (Hz) */
+  meanFrequency: number | null;
+  medianFrequency: number | null;
+  /** What the cents are measured against: the expected note, or "nearest note" */
+  target: string;
+  /** Deviation from the target per frame: mean, median and standard deviation (cents) */
+  meanCents: number | null;
+  medianCents: number | null;
+  stdDevCents: number | null;
+  /** Slope of the deviation over time (cents per second; negative = going flat) */
+  driftCentsPerSecond: number | null;
+  /** Share of voiced frames within ±tolerance of the target (0–1) */
+  inTolerance: number | null;
+  tolerance: number;
+  /** Null when no regular oscillation in the vibrato range was found */
+  vibrato: VibratoStats | null;
+}
+
+interface VoicedPoint {
+  time: number;
+  frequency: number;
+  /** Deviation from the target (cents) */
+  cents: number;
+}
+
+const VIBRATO_DEFAULTS = { minVibratoRate: 3, maxVibratoRate: 12, minVibratoExtent: 10 };
+/** Detrending window: one second removes slow drift and note changes but keeps 3–12 Hz vibrato */
+const TREND_WINDOW_SECONDS = 1;
+/** Residual must pass ±this many cents to count as a zero crossing (ignores jitter) */
+const CROSSING_HYSTERESIS_CENTS = 2;
+
+/**
+ * Statistics over the voiced frames of a contour (same input as segmentNotes)
+ */
+export function computeIntonationStats(
+  frames: { time: number; result: PitchResult }[],
+  options: IntonationOptions = {}
+): IntonationStats {
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE_CENTS;
+  const expectedHz = resolveExpected(options.expectedNote, options.tuning);
+  const stats: IntonationStats = {
+    voicedFrames: 0,
+    voicedDuration: 0,
+    meanFrequency: null,
+    medianFrequency: null,
+    target: expectedHz !== null ? String(options.expectedNote).trim() : "nearest note",
+    meanCents: null,
+    medianCents: null,
+    stdDevCents: null,
+    driftCentsPerSecond: null,
+    inTolerance: null,
+    tolerance,
+    vibrato: null,
+  };
+
+  const points: VoicedPoint[] = [];
+  // Unsmoothed pitch: the engine's median/EMA smoothing would shrink the vibrato
+  for (const { time, result } of frames) {
+    const frequency = result.rawFrequency ?? result.frequency;
+    if (!result.voiced || frequency === null || !(frequency > 0)) continue;
+    const target = expectedHz ?? parseExpectedNote(frequencyToNote(frequency, options.tuning).note, options.tuning);
+    if (!target) continue;
+    points.push({ time, frequency, cents: centsOffFromReference(frequency, target) });
+  }
+  if (points.length === 0) return stats;
+
+  const step = frameStep(frames);
+  const cents = points.map((p) => p.cents);
+  const frequencies = points.map((p) => p.frequency);
+  const meanCents = mean(cents);
+
+  stats.voicedFrames = points.length;
+  stats.voicedDuration = points.length * step;
+  stats.meanFrequency = mean(frequencies);
+  stats.medianFrequency = median(frequencies);
+  stats.meanCents = meanCents;
+  stats.medianCents = median(cents);
+  stats.stdDevCents = Math.sqrt(mean(cents.map((c) => (c - meanCents) ** 2)));
+  stats.driftCentsPerSecond = points.length > 1 ? slope(points.map((p) => p.time), cents) : 0;
+  stats.inTolerance = cents.filter((c) => Math.abs(c) <= tolerance).length / points.length;
+  stats.vibrato = estimateVibrato(points, step, {
+    minVibratoRate: options.minVibratoRate ?? VIBRATO_DEFAULTS.minVibratoRate,
+    maxVibratoRate: options.maxVibratoRate ?? VIBRATO_DEFAULTS.maxVibratoRate,
+    minVibratoExtent: options.minVibratoExtent ?? VIBRATO_DEFAULTS.minVibratoExtent,
+  });
+  return stats;
+}
+
+/**
+ * Vibrato, cycle by cycle: per run of consecutive voiced frames, subtract a
+ * 1 s moving average of the log pitch, then measure each half cycle between
+ * zero crossings of the residual (duration + largest excursion). Half cycles
+ * outside the rate range are ignored; vibrato is reported when at least two
+ * full cycles fall inside it, they make up most of the voiced time, and the
+ * mean excursion reaches minVibratoExtent.
+ */
+function estimateVibrato(
+  points: VoicedPoint[],
+  step: number,
+  opts: typeof VIBRATO_DEFAULTS
+): VibratoStats | null {
+  if (step <= 0) return null;
+  const minHalf = 1 / (2 * opts.maxVibratoRate);
+  const maxHalf = 1 / (2 * opts.minVibratoRate);
+  const halfWindow = Math.max(1, Math.round(TREND_WINDOW_SECONDS / step / 2));
+
+  const accepted: { duration: number; excursion: number }[] = [];
+  let measuredTime = 0;
+  for (const run of splitRuns(points, step)) {
+    if (run.length * step < 2 * maxHalf) continue;
+    measuredTime += run.length * step;
+
+    // Residual around the moving-average trend, in cents
+    const pitch = run.map((p) => 1200 * Math.log2(p.frequency));
+    const residual = pitch.map((value, i) => {
+      const lo = Math.max(0, i - halfWindow);
+      const hi = Math.min(pitch.length - 1, i + halfWindow);
+      let sum = 0;
+      for (let j = lo; j <= hi; j++) sum += pitch[j];
+      return value - sum / (hi - lo + 1);
+    });
+
+    // Zero crossings with hysteresis; the crossing time is interpolated
+    let sign = 0;
+    let lastCrossing: number | null = null;
+    let excursion = 0;
+    for (let i = 0; i < residual.length; i++) {
+      const r = residual[i];
+      const next = r > CROSSING_HYSTERESIS_CENTS ? 1 : r < -CROSSING_HYSTERESIS_CENTS ? -1 : sign;
+      if (sign !== 0 && next !== sign) {
+        // Last sign change before i
+        let k = i;
+        while (k > 0 && Math.sign(residual[k - 1]) !== sign) k--;
+        const a = residual[k - 1] ?? 0;
+        const b = residual[k];
+        const t = k > 0 && a !== b ? run[k - 1].time + (a / (a - b)) * (run[k].time - run[k - 1].time) : run[k].time;
+        if (lastCrossing !== null) {
+          const duration = t - lastCrossing;
+          if (duration >= minHalf && duration <= maxHalf) accepted.push({ duration, excursion });
+        }
+        lastCrossing = t;
+        excursion = 0;
+      }
+      if (next !== 0) sign = next;
+      excursion = Math.max(excursion, Math.abs(r));
+    }
+  }
+
+  const cycles = accepted.length / 2;
+  if (cycles < 2) return null;
+  const halfTime = accepted.reduce((sum, h) => sum + h.duration, 0);
+  if (halfTime < measuredTime / 2) return null;
+  const extent = mean(accepted.map((h) => h.excursion));
+  if (extent < opts.minVibratoExtent) return null;
+  return { rate: 1 / (2 * (halfTime / accepted.length)), extent, cycles: Math.floor(cycles) };
+}
+
+/** Consecutive points with no gap longer than 1.5 frame steps */
+function splitRuns(points: VoicedPoint[], step: number): VoicedPoint[][] {
+  const runs: VoicedPoint[][] = [];
+  let run: VoicedPoint[] = [];
+  for (const p of points) {
+    if (run.length && p.time - run[run.length - 1].time > step * 1.5) {
+      runs.push(run);
+      run = [];
+    }
+    run.push(p);
+  }
+  if (run.length) runs.push(run);
+  return runs;
+}
+
+/** Median time between consecutive frames (s) */
+function frameStep(frames: { time: number }[]): number {
+  if (frames.length < 2) return 0;
+  const steps: number[] = [];
+  for (let i = 1; i < frames.length; i++) steps.push(frames[i].time - frames[i - 1].time);
+  return median(steps);
+}
+
+function resolveExpected(input: string | number | undefined, tuning?: TuningConfig): number | null {
+  if (input === undefined || input === null || input === "") return null;
+  const hz = typeof input === "number" ? input : parseExpectedNote(input, tuning);
+  return hz && hz > 0 ? hz : null;
+}
+
+/** Least-squares slope of y over x */
+function slope(x: number[], y: number[]): number {
+  const mx = mean(x);
+  const my = mean(y);
+  let num = 0;
+  let den = 0;
+  for (let i = 0; i < x.length; i++) {
+    num += (x[i] - mx) * (y[i] - my);
+    den += (x[i] - mx) ** 2;
+  }
+  return den > 0 ? num / den : 0;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
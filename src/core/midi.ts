@@ -0,0 +1,142 @@
+// core/midi.ts
+// Standard MIDI File (format 0) export of detected note events
+
+import type { NoteEvent } from "./segmentation.js";
+import { DEFAULT_A4_FREQUENCY } from "./note-utils.js";
+
+export interface MidiExportOptions {
+  /** Tempo written to the file, in BPM (default 120) */
+  tempo?: number;
+  /** Ticks per quarter note (default 480) */
+  ppq?: number;
+  /** Note-on velocity 1–127 (default 100) */
+  velocity?: number;
+  /** MIDI channel 0–15 (default 0) */
+  channel?: number;
+  /** Send a pitch-bend before each note carrying its deviation from the key (default false) */
+  pitchBend?: boolean;
+  /** Pitch-bend range in semitones, also sent as RPN 0 (default 2) */
+  pitchBendRange?: number;
+  /** Track name meta event (optional) */
+  trackName?: string;
+}
+
+interface TimedEvent {
+  tick: number;
+  /** Ordering at equal ticks: note-off < pitch-bend < note-on */
+  order: number;
+  bytes: number[];
+}
+
+const BEND_CENTER = 8192;
+
+/** Variable-length quantity (7 bits per byte, MSB = continuation) */
+function writeVarLen(value: number): number[] {
+  let v = Math.max(0, Math.floor(value));
+  const bytes = [v & 0x7f];
+  v >>= 7;
+  while (v > 0) {
+    bytes.unshift((v & 0x7f) | 0x80);
+    v >>= 7;
+  }
+  return bytes;
+}
+
+function writeUint32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+}
+
+function pitchBendBytes(channel: number, value: number): number[] {
+  const v = Math.max(0, Math.min(16383, Math.round(value)));
+  return [0xe0 | channel, v & 0x7f, (v >> 7) & 0x7f];
+}
+
+/**
+ * Encode notes as a format-0 Standard MIDI File
+ * Keys are the nearest 12-TET notes (A4 = 440 Hz) to each event's frequency,
+ * whatever tuning named it; with `pitchBend` the rest of the way to that
+ * frequency is sent as a bend just before its note-on.
+ */
+export function encodeMidi(notes: NoteEvent[], options: MidiExportOptions = {}): Uint8Array<ArrayBuffer> {
+  const tempo = options.tempo ?? 120;
+  const ppq = options.ppq ?? 480;
+  const velocity = Math.max(1, Math.min(127, Math.round(options.velocity ?? 100)));
+  const channel = Math.max(0, Math.min(15, Math.floor(options.channel ?? 0)));
+  const bendRange = options.pitchBendRange ?? 2;
+  if (!(tempo > 0) || !(ppq > 0) || ppq > 0x7fff) {
+    throw new Error(`Invalid MIDI timing: tempo=${tempo}, ppq=${ppq}`);
+  }
+  if (options.pitchBend && !(bendRange > 0 && bendRange <= 24)) {
+    throw new Error(`Invalid pitch-bend range: ${bendRange}`);
+  }
+
+  const ticksPerSecond = (ppq * tempo) / 60;
+  const toTick = (seconds: number) => Math.max(0, Math.round(seconds * ticksPerSecond));
+  const events: TimedEvent[] = [];
+
+  // Header meta events at tick 0
+  if (options.trackName) {
+    const name = Array.from(new TextEncoder().encode(options.trackName));
+    events.push({ tick: 0, order: -2, bytes: [0xff, 0x03, ...writeVarLen(name.length), ...name] });
+  }
+  const usPerQuarter = Math.round(60_000_000 / tempo);
+  events.push({
+    tick: 0,
+    order: -2,
+    bytes: [0xff, 0x51, 0x03, (usPerQuarter >> 16) & 0xff, (usPerQuarter >> 8) & 0xff, usPerQuarter & 0xff],
+  });
+  if (options.pitchBend) {
+    // RPN 0 (pitch-bend sensitivity), then close the RPN
+    const cc = 0xb0 | channel;
+    const semis = Math.floor(bendRange);
+    const cents = Math.round((bendRange - semis) * 100);
+    const rpn = [[101, 0], [100, 0], [6, semis], [38, cents], [101, 127], [100, 127]];
+    for (const [controller, value] of rpn) {
+      events.push({ tick: 0, order: -1, bytes: [cc, controller, value] });
+    }
+  }
+
+  let lastTick = 0;
+  for (const n of notes) {
+    // MIDI keys are equal-tempered at A4 = 440 Hz, not the analysis tuning
+    const exact = 69 + 12 * Math.log2(n.frequency / DEFAULT_A4_FREQUENCY);
+    const key = Math.round(exact);
+    if (!Number.isFinite(key) || key < 0 || key > 127) continue;
+    const on = toTick(n.onset);
+    const off = Math.max(on + 1, toTick(n.offset));
+
+    if (options.pitchBend) {
+      const bend = BEND_CENTER + ((exact - key) / bendRange) * BEND_CENTER;
+      events.push({ tick: on, order: 1, bytes: pitchBendBytes(channel, bend) });
+    }
+    events.push({ tick: on, order: 2, bytes: [0x90 | channel, key, velocity] });
+    events.push({ tick: off, order: 0, bytes: [0x80 | channel, key, 0] });
+    lastTick = Math.max(lastTick, off);
+  }
+  if (options.pitchBend) {
+    events.push({ tick: lastTick, order: 1, bytes: pitchBendBytes(channel, BEND_CENTER) });
+  }
+
+  // Stable sort keeps insertion order inside equal (tick, order) groups
+  events.sort((a, b) => a.tick - b.tick || a.order - b.order);
+
+  // Track data: delta time + event, then End of Track
+  const track: number[] = [];
+  let prevTick = 0;
+  for (const e of events) {
+    track.push(...writeVarLen(e.tick - prevTick), ...e.bytes);
+    prevTick = e.tick;
+  }
+  track.push(0x00, 0xff, 0x2f, 0x00);
+
+  const header = [
+    0x4d, 0x54, 0x68, 0x64, // "MThd"
+    ...writeUint32(6),
+    0x00, 0x00,             // format 0
+    0x00, 0x01,             // one track
+    (ppq >> 8) & 0x7f, ppq & 0xff,
+  ];
+  const trackHeader = [0x4d, 0x54, 0x72, 0x6b, ...writeUint32(track.length)]; // "MTrk"
+
+  return Uint8Array.from([...header, ...trackHeader, ...track]);
+}
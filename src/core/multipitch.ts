@@ -0,0 +1,277 @@
+// core/multipitch.ts
+// Multi-pitch estimation: iterative F0 estimation + harmonic cancellation on
+// the magnitude spectrum (after Klapuri, 2006), for chords and double stops
+
+import { fft, nextPowerOfTwo } from "./dsp/fft.js";
+import type { DetectedPitch, MultiPitchResult } from "./pitch-engine.js";
+
+export interface MultiPitchConfig {
+  sampleRate: number;
+  minFrequency?: number;      // Lowest F0 considered in Hz (default 60)
+  maxFrequency?: number;      // Highest F0 considered in Hz (default 1400)
+  maxPolyphony?: number;      // Most simultaneous pitches reported (default 6)
+  maxHarmonics?: number;      // Partials summed per candidate (default 20)
+  salienceRatio?: number;     // Stop when a pitch is weaker than this share of the first (default 0.2)
+  cancellation?: number;      // Share of each detected partial removed from the residual (default 0.9)
+  minFundamentalRatio?: number; // Fundamental peak needed, relative to the spectrum maximum (default 0.05; 0 = off)
+}
+
+export interface SalientPitch {
+  frequency: number;   // Hz, refined from the partial peaks
+  salience: number;    // Weighted harmonic sum, relative to the strongest pitch (0–1)
+}
+
+// Harmonic weight g(f0, h) = (f0 + ALPHA) / (h·f0 + BETA), Klapuri's values
+const ALPHA = 52;
+const BETA = 320;
+const CANDIDATES_PER_SEMITONE = 5;
+const REFINE_HARMONICS = 5;
+
+/**
+ * MultiPitchEstimator
+ * Per frame: Hann window → magnitude spectrum, then repeatedly
+ * 1) pick the F0 whose weighted harmonic sum (salience) is largest,
+ * 2) refine it from its partial peaks,
+ * 3) subtract its partials from the residual spectrum,
+ * until the next pitch is too weak or maxPolyphony is reached.
+ * Partials are cancelled no further than the smoothed envelope of the
+ * detected note, so partials shared with other notes (fifths, octaves) stay.
+ */
+export class MultiPitchEstimator {
+  private readonly sampleRate: number;
+  private readonly minFrequency: number;
+  private readonly maxFrequency: number;
+  private readonly maxPolyphony: number;
+  private readonly maxHarmonics: number;
+  private readonly salienceRatio: number;
+  private readonly cancellation: number;
+  private readonly minFundamentalRatio: number;
+  private readonly candidates: Float64Array;
+
+  constructor(config: MultiPitchConfig) {
+    this.sampleRate = config.sampleRate;
+    this.minFrequency = config.minFrequency ?? 60;
+    this.maxFrequency = config.maxFrequency ?? 1400;
+    if (!(this.minFrequency > 0) || !(this.maxFrequency > this.minFrequency)) {
+      throw new Error(`Invalid multi-pitch frequency range: ${this.minFrequency}–${this.maxFrequency} Hz`);
+    }
+    this.maxPolyphony = config.maxPolyphony ?? 6;
+    this.maxHarmonics = config.maxHarmonics ?? 20;
+    this.salienceRatio = config.salienceRatio ?? 0.2;
+    this.cancellation = config.cancellation ?? 0.9;
+    this.minFundamentalRatio = config.minFundamentalRatio ?? 0.05;
+
+    // Log-spaced candidate grid
+    const steps = Math.floor(12 * CANDIDATES_PER_SEMITONE * Math.log2(this.maxFrequency / this.minFrequency));
+    this.candidates = new Float64Array(steps + 1);
+    for (let i = 0; i <= steps; i++) {
+      this.candidates[i] = this.minFrequency * Math.pow(2, i / (12 * CANDIDATES_PER_SEMITONE));
+    }
+  }
+
+  /**
+   * Simultaneous fundamentals in one frame, most salient first
+   */
+  estimate(frame: Float32Array): SalientPitch[] {
+    const size = nextPowerOfTwo(frame.length) * 2; // zero-padded for finer peak picking
+    const binHz = this.sampleRate / size;
+    const spectrum = this.magnitudeSpectrum(frame, size);
+    const residual = Float64Array.from(spectrum);
+    let spectrumMax = 0;
+    for (let k = 0; k < spectrum.length; k++) if (spectrum[k] > spectrumMax) spectrumMax = spectrum[k];
+
+    const found: { frequency: number; salience: number }[] = [];
+    let first = 0;
+    // Re-detections of a found note don't count, but the total number of passes is bounded
+    for (let pass = 0; pass < 2 * this.maxPolyphony && found.length < this.maxPolyphony; pass++) {
+      // 1) Most salient candidate in the residual
+      let best = -1;
+      let bestSalience = 0;
+      for (let i = 0; i < this.candidates.length; i++) {
+        const s = this.salience(residual, this.candidates[i], binHz);
+        if (s > bestSalience) {
+          bestSalience = s;
+          best = i;
+        }
+      }
+      if (best < 0 || bestSalience <= 0) break;
+      if (found.length === 0) first = bestSalience;
+      else if (bestSalience < first * this.salienceRatio) break;
+
+      // 2) Refine from the partial peaks of the residual
+      const frequency = this.refine(spectrum, this.candidates[best], binHz);
+      const duplicate = found.some((p) => Math.abs(1200 * Math.log2(p.frequency / frequency)) < 50);
+      if (duplicate || frequency < this.minFrequency || frequency > this.maxFrequency ||
+          !this.hasFundamental(spectrum, frequency, binHz, spectrumMax)) {
+        // Leftover energy of a found note, or a "virtual" F0 made of other notes'
+        // partials: cancel it without reporting
+        this.cancel(residual, frequency, binHz);
+        continue;
+      }
+      found.push({ frequency, salience: bestSalience });
+
+      // 3) Remove its partials
+      this.cancel(residual, frequency, binHz);
+    }
+
+    return found
+      .sort((a, b) => b.salience - a.salience)
+      .map((p) => ({ frequency: p.frequency, salience: first > 0 ? p.salience / first : 0 }));
+  }
+
+  private magnitudeSpectrum(frame: Float32Array, size: number): Float64Array {
+    const re = new Float64Array(size);
+    const im = new Float64Array(size);
+    const n = frame.length;
+    for (let i = 0; i < n; i++) {
+      re[i] = frame[i] * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1)));
+    }
+    fft(re, im);
+    const mag = new Float64Array(size / 2);
+    for (let k = 0; k < mag.length; k++) mag[k] = Math.hypot(re[k], im[k]);
+    return mag;
+  }
+
+  /**
+   * Partial search band around h·f0: ±half a semitone, at least ±1 bin
+   */
+  private band(center: number, binHz: number, length: number): [number, number] {
+    const lo = Math.floor(Math.min(center * Math.pow(2, -1 / 24), center - binHz) / binHz);
+    const hi = Math.ceil(Math.max(center * Math.pow(2, 1 / 24), center + binHz) / binHz);
+    return [Math.max(1, lo), Math.min(length - 1, hi)];
+  }
+
+  private salience(spectrum: Float64Array, f0: number, binHz: number): number {
+    let sum = 0;
+    const nyquist = this.sampleRate / 2;
+    for (let h = 1; h <= this.maxHarmonics && h * f0 < nyquist; h++) {
+      const [lo, hi] = this.band(h * f0, binHz, spectrum.length);
+      let peak = 0;
+      for (let k = lo; k <= hi; k++) if (spectrum[k] > peak) peak = spectrum[k];
+      sum += ((f0 + ALPHA) / (h * f0 + BETA)) * peak;
+    }
+    return sum;
+  }
+
+  /**
+   * Weighted mean of (partial frequency / h) over the lowest partials of the
+   * original spectrum, weight = amplitude / h (low partials overlap other notes
+   * less), each partial located by parabolic interpolation on log magnitude.
+   * Two passes: the grid candidate can sit up to half a semitone off, so the
+   * second pass re-centres the partial bands on the first estimate.
+   */
+  private refine(spectrum: Float64Array, f0: number, binHz: number): number {
+    return this.refinePass(spectrum, this.refinePass(spectrum, f0, binHz), binHz);
+  }
+
+  private refinePass(spectrum: Float64Array, f0: number, binHz: number): number {
+    let weighted = 0;
+    let weights = 0;
+    for (let h = 1; h <= REFINE_HARMONICS && h * f0 < this.sampleRate / 2; h++) {
+      const [lo, hi] = this.band(h * f0, binHz, spectrum.length);
+      let k = lo;
+      for (let j = lo; j <= hi; j++) if (spectrum[j] > spectrum[k]) k = j;
+      // Only true local maxima (a band edge on a slope is not a partial)
+      if (k < 1 || k + 1 >= spectrum.length || spectrum[k] <= 0) continue;
+      if (spectrum[k] < spectrum[k - 1] || spectrum[k] < spectrum[k + 1]) continue;
+      const a = Math.log(spectrum[k - 1] + 1e-12);
+      const b = Math.log(spectrum[k] + 1e-12);
+      const c = Math.log(spectrum[k + 1] + 1e-12);
+      const denom = a - 2 * b + c;
+      const offset = denom < 0 ? (0.5 * (a - c)) / denom : 0;
+      const partial = (k + offset) * binHz;
+      weighted += (partial / h) * (spectrum[k] / h);
+      weights += spectrum[k] / h;
+    }
+    return weights > 0 ? weighted / weights : f0;
+  }
+
+  /**
+   * Whether the original spectrum has a real peak at f0 (not just at its harmonics)
+   */
+  private hasFundamental(spectrum: Float64Array, f0: number, binHz: number, spectrumMax: number): boolean {
+    if (this.minFundamentalRatio <= 0) return true;
+    const [lo, hi] = this.band(f0, binHz, spectrum.length);
+    for (let k = Math.max(1, lo); k <= hi && k + 1 < spectrum.length; k++) {
+      if (spectrum[k] >= spectrum[k - 1] && spectrum[k] >= spectrum[k + 1] &&
+          spectrum[k] >= spectrumMax * this.minFundamentalRatio) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private cancel(spectrum: Float64Array, f0: number, binHz: number): void {
+    const peaks: number[] = [];
+    const bands: [number, number][] = [];
+    for (let h = 1; h <= this.maxHarmonics && h * f0 < this.sampleRate / 2; h++) {
+      const band = this.band(h * f0, binHz, spectrum.length);
+      let peak = 0;
+      for (let k = band[0]; k <= band[1]; k++) if (spectrum[k] > peak) peak = spectrum[k];
+      peaks.push(peak);
+      bands.push(band);
+    }
+    // Spectral smoothness: cancel at most the local mean of neighbouring partials
+    for (let i = 0; i < peaks.length; i++) {
+      const neighbours = peaks.slice(Math.max(0, i - 1), i + 2);
+      const envelope = neighbours.reduce((a, b) => a + b, 0) / neighbours.length;
+      const amount = Math.min(peaks[i], envelope);
+      const scale = peaks[i] > 0 ? 1 - (this.cancellation * amount) / peaks[i] : 1;
+      for (let k = bands[i][0]; k <= bands[i][1]; k++) spectrum[k] *= scale;
+    }
+  }
+}
+
+export interface ChordNote {
+  note: string;
+  /** Median frequency over the frames where the note was found (Hz) */
+  frequency: number;
+  /** Median deviation from the note (cents) */
+  cents: number;
+  /** Mean salience over those frames (0–1) */
+  salience: number;
+  /** Share of sounding frames (at least one pitch) that contain the note (0–1) */
+  presence: number;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Notes of a sustained chord: groups per-frame pitches by note name and keeps
+ * those present in at least `minPresence` of the sounding frames, lowest first
+ */
+export function summarizeChord(frames: MultiPitchResult[], minPresence: number = 0.5): ChordNote[] {
+  const sounding = frames.filter((f) => f.pitches.length > 0);
+  if (sounding.length === 0) return [];
+
+  const byNote = new Map<string, DetectedPitch[]>();
+  for (const frame of sounding) {
+    // Each note counts once per frame: pitches are sorted by salience, keep the first
+    const seen = new Set<string>();
+    for (const p of frame.pitches) {
+      if (seen.has(p.note)) continue;
+      seen.add(p.note);
+      const list = byNote.get(p.note) ?? [];
+      list.push(p);
+      byNote.set(p.note, list);
+    }
+  }
+
+  const chord: ChordNote[] = [];
+  for (const [note, pitches] of byNote) {
+    const presence = pitches.length / sounding.length;
+    if (presence < minPresence) continue;
+    chord.push({
+      note,
+      frequency: median(pitches.map((p) => p.frequency)),
+      cents: Math.round(median(pitches.map((p) => p.cents)) * 10) / 10,
+      salience: pitches.reduce((sum, p) => sum + p.salience, 0) / pitches.length,
+      presence,
+    });
+  }
+  return chord.sort((a, b) => a.frequency - b.frequency);
+}
@@ -1,33 +1,153 @@
 // note-utils.ts
 // Utility functions for converting between Hz and note names (C4, F#3, etc.)
-// and computing cents deviation.
+// and computing cents deviation against a configurable tuning
+// (A4 reference pitch + temperament).
 
 export interface NoteInfo {
   note: string;          // e.g. "C#4"
-  frequency: number;     // exact equal-tempered frequency in Hz
-  cents: number;         // deviation from equal-tempered
+  frequency: number;     // detected frequency in Hz (echoed back)
+  cents: number;         // deviation from the nearest note of the active tuning
 }
 
-const A4_FREQUENCY = 440; // Fixed in this version
+/** Built-in temperaments. Offsets are relative to the `tonic` of the tuning. */
+export type TemperamentName = "equal" | "just" | "pythagorean" | "meantone" | "werckmeister";
+
+export interface TuningConfig {
+  /** Frequency of A4 in Hz (default 440). A4 always sounds at exactly this pitch. */
+  referenceFrequency?: number;
+  /**
+   * Temperament name, or a user table of 12 cent offsets from equal temperament
+   * (index 0 = tonic, 1 = tonic + 1 semitone, ...). Default "equal".
+   */
+  temperament?: TemperamentName | number[];
+  /** Pitch class the temperament is built on, e.g. "C", "D", "Bb" (default "C") */
+  tonic?: string;
+}
+
+export const DEFAULT_A4_FREQUENCY = 440;
+export const TEMPERAMENT_NAMES: TemperamentName[] = ["equal", "just", "pythagorean", "meantone", "werckmeister"];
+
 const NOTES_SHARP = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
 const NOTES_FLAT  = ["C", "Db", "D", "Eb", "E", "F", "Gb", "G", "Ab", "A", "Bb", "B"];
+const PITCH_CLASS_A = 9;
+
+const ratioToCents = (ratio: number) => 1200 * Math.log2(ratio);
+
+/** Scale degrees (cents above tonic) → offsets from equal temperament */
+const fromScaleCents = (scale: number[]) => scale.map((c, i) => c - 100 * i);
+
+/** Scale built from a chain of fifths; `lowest` = number of fifths below the tonic */
+function chainOfFifths(fifthCents: number, lowest: number): number[] {
+  const scale = new Array<number>(12).fill(0);
+  for (let k = -lowest; k < 12 - lowest; k++) {
+    const cents = k * fifthCents;
+    const pitchClass = (((7 * k) % 12) + 12) % 12;
+    scale[pitchClass] = ((cents % 1200) + 1200) % 1200;
+  }
+  return fromScaleCents(scale);
+}
+
+/** Cent offsets from 12-TET for each scale degree above the tonic */
+const TEMPERAMENT_OFFSETS: Record<TemperamentName, number[]> = {
+  equal: new Array<number>(12).fill(0),
+  // 5-limit just intonation
+  just: fromScaleCents(
+    [1, 16 / 15, 9 / 8, 6 / 5, 5 / 4, 4 / 3, 45 / 32, 3 / 2, 8 / 5, 5 / 3, 9 / 5, 15 / 8].map(ratioToCents)
+  ),
+  // Pure 3:2 fifths, wolf between the raised 4th and minor 2nd
+  pythagorean: chainOfFifths(ratioToCents(3 / 2), 5),
+  // Quarter-comma meantone, Eb..G# relative to C
+  meantone: chainOfFifths(ratioToCents(3 / 2) - ratioToCents(81 / 80) / 4, 3),
+  // Werckmeister III
+  werckmeister: fromScaleCents([
+    0, 90.225, 192.18, 294.135, 390.225, 498.045, 588.27, 696.09, 792.18, 888.27, 996.09, 1092.18
+  ]),
+};
+
+/**
+ * Fully resolved tuning: reference pitch plus per-pitch-class offsets (cents
+ * from equal temperament, indexed by absolute pitch class C=0 … B=11).
+ */
+export interface ResolvedTuning {
+  referenceFrequency: number;
+  offsets: number[];
+}
+
+/**
+ * Validate a TuningConfig and rotate its offsets so they line up with absolute
+ * pitch classes. Offsets are shifted so A keeps 0 cents, i.e. A4 stays at the
+ * reference frequency whatever the temperament.
+ */
+export function resolveTuning(tuning: TuningConfig = {}): ResolvedTuning {
+  const referenceFrequency = tuning.referenceFrequency ?? DEFAULT_A4_FREQUENCY;
+  if (!isFinite(referenceFrequency) || referenceFrequency <= 0) {
+    throw new Error(`Invalid reference frequency: ${tuning.referenceFrequency}`);
+  }
+
+  const temperament = tuning.temperament ?? "equal";
+  let relative: number[];
+  if (Array.isArray(temperament)) {
+    if (temperament.length !== 12 || temperament.some((c) => typeof c !== "number" || !isFinite(c))) {
+      throw new Error("Custom temperament must be a list of 12 cent offsets");
+    }
+    relative = temperament;
+  } else {
+    const table = TEMPERAMENT_OFFSETS[temperament];
+    if (!table) throw new Error(`Unknown temperament: ${temperament}`);
+    relative = table;
+  }
+
+  const tonic = parsePitchClass(tuning.tonic ?? "C");
+  if (tonic === null) throw new Error(`Invalid tonic: ${tuning.tonic}`);
+
+  const absolute = new Array<number>(12);
+  for (let degree = 0; degree < 12; degree++) {
+    absolute[(tonic + degree) % 12] = relative[degree];
+  }
+  const anchor = absolute[PITCH_CLASS_A];
+  return { referenceFrequency, offsets: absolute.map((c) => c - anchor) };
+}
+
+/**
+ * Frequency of a MIDI note number in the given tuning
+ */
+export function midiToFrequency(midi: number, tuning: TuningConfig = {}): number {
+  const { referenceFrequency, offsets } = resolveTuning(tuning);
+  return tunedFrequency(midi, referenceFrequency, offsets);
+}
+
+function tunedFrequency(midi: number, reference: number, offsets: number[]): number {
+  const pitchClass = ((midi % 12) + 12) % 12;
+  return reference * Math.pow(2, (midi - 69) / 12 + offsets[pitchClass] / 1200);
+}
 
 /**
  * Convert frequency (Hz) to note info (name + octave + cents deviation)
  */
-export function frequencyToNote(frequency: number): NoteInfo {
+export function frequencyToNote(frequency: number, tuning: TuningConfig = {}): NoteInfo {
   if (!frequency || frequency <= 0) {
     return { note: "Unknown", frequency: 0, cents: 0 };
   }
+  const { referenceFrequency, offsets } = resolveTuning(tuning);
 
-  // Step 1: Note number relative to MIDI scale
-  const noteNumber = 12 * (Math.log2(frequency / A4_FREQUENCY)) + 69;
-  const roundedNote = Math.round(noteNumber);
-  const cents = Math.round((noteNumber - roundedNote) * 100);
+  // Step 1: Nearest note of the tuning. Start from the equal-tempered guess and
+  // check its neighbours, since temperament offsets can move the boundary.
+  const guess = Math.round(12 * Math.log2(frequency / referenceFrequency) + 69);
+  let roundedNote = guess;
+  let bestCents = Infinity;
+  for (let midi = guess - 1; midi <= guess + 1; midi++) {
+    const c = centsOffFromReference(frequency, tunedFrequency(midi, referenceFrequency, offsets));
+    if (Math.abs(c) < Math.abs(bestCents)) {
+      bestCents = c;
+      roundedNote = midi;
+    }
+  }
+  const cents = Math.round(bestCents);
 
   // Step 2: Name with smart accidental (choose sharp or flat if needed)
-  const noteNameSharp = NOTES_SHARP[roundedNote % 12];
-  const noteNameFlat  = NOTES_FLAT[roundedNote % 12];
+  const pitchClass = ((roundedNote % 12) + 12) % 12;
+  const noteNameSharp = NOTES_SHARP[pitchClass];
+  const noteNameFlat  = NOTES_FLAT[pitchClass];
   const noteName = chooseSmartAccidental(noteNameSharp, noteNameFlat);
   const octave = Math.floor(roundedNote / 12) - 1;
 
@@ -40,30 +160,55 @@ export function frequencyToNote(frequency: number): NoteInfo {
 
 /**
  * Convert note name like "C4", "A#3", "Db5" or frequency like "442"
+ * Note names resolve through the given tuning; plain Hz values are returned as-is.
  */
-export function parseExpectedNote(input: string): number | null {
+export function parseExpectedNote(input: string, tuning: TuningConfig = {}): number | null {
   // If number → treat as Hz
   if (/^\d+(\.\d+)?$/.test(input.trim())) {
     return parseFloat(input);
   }
 
   // Note name form
-  const match = /^([A-Ga-g])([#b]?)(-?\d)$/.exec(input.trim());
+  const midi = noteToMidi(input);
+  if (midi === null) return null;
+
+  // Convert MIDI to frequency
+  return midiToFrequency(midi, tuning);
+}
+
+/**
+ * MIDI note number for a note name like "C4", "A#3", "Db5" (C4 = 60)
+ */
+export function noteToMidi(input: string): number | null {
+  const match = /^([A-Ga-g][#b]?)(-?\d)$/.exec(input.trim());
   if (!match) return null;
 
-  const [, letter, accidental, octaveStr] = match;
+  const [, name, octaveStr] = match;
   const octave = parseInt(octaveStr, 10);
+  const semitone = semitoneOf(name);
+  if (semitone === null) return null;
 
-  // Find semitone index
-  const name = letter.toUpperCase() + accidental;
-  const indexSharp = NOTES_SHARP.indexOf(name);
-  const indexFlat  = NOTES_FLAT.indexOf(name);
-  const semitone = Math.max(indexSharp, indexFlat); // use whichever matches
+  return semitone + (octave + 1) * 12;
+}
 
-  const midi = semitone + (octave + 1) * 12;
+/**
+ * Pitch class index (C=0 … B=11) for a name like "C", "F#", "Bb"
+ */
+export function parsePitchClass(name: string): number | null {
+  const semitone = semitoneOf(name);
+  return semitone === null ? null : (semitone + 12) % 12;
+}
 
-  // Convert MIDI to frequency
-  return A4_FREQUENCY * Math.pow(2, (midi - 69) / 12);
+/**
+ * Semitones above C in the same octave; Cb → -1 and B# → 12 so the
+ * written octave number stays correct
+ */
+function semitoneOf(name: string): number | null {
+  const match = /^([A-Ga-g])([#b]?)$/.exec(name.trim());
+  if (!match) return null;
+  const natural = NOTES_SHARP.indexOf(match[1].toUpperCase());
+  const accidental = match[2] === "#" ? 1 : match[2] === "b" ? -1 : 0;
+  return natural + accidental;
 }
 
 /**
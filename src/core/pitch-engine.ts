@@ -1,60 +1,172 @@
 // core/pitch-engine.ts
 // Main pitch engine: DSP preprocessing → YIN → musical readout (Hz, note, cents, confidence)
 
-import { Yin } from "./yin.js";
+import { Yin, requiredFrameSize } from "./yin.js";
+import { PYin } from "./pyin.js";
+import type { PYinConfig, PitchCandidate } from "./pyin.js";
+import { MultiPitchEstimator } from "./multipitch.js";
+import type { MultiPitchConfig } from "./multipitch.js";
 import { frequencyToNote, parseExpectedNote, centsOffFromReference } from "./note-utils.js";
+import type { TuningConfig } from "./note-utils.js";
 import { defaultDSPConfig } from "./dsp/dsp-config.js";
 import type { DSPConfig } from "./dsp/dsp-config.js";
-import { applyFilters } from "./dsp/filters.js";
-import { applyNoiseControl } from "./dsp/noise.js";
+import { FilterBank } from "./dsp/filters.js";
+import type { HumFrequency } from "./dsp/hum.js";
+import { adaptiveGateThreshold, applyNoiseControl, NoiseFloorTracker } from "./dsp/noise.js";
+import { NoiseProfiler, SpectralDenoiser } from "./dsp/denoise.js";
+import type { NoiseProfile } from "./dsp/denoise.js";
 import { calculateRMS } from "./dsp/rms.js";
+import { classifyVoicing, zeroCrossingRate } from "./dsp/voicing.js";
+import type { UnvoicedReason } from "./dsp/voicing.js";
 import { MedianSmoother, MovingAverage } from "./dsp/smoothing.js";
 
 export interface ProcessOptions {
   /** Optional expected note: "C4", "Bb3" or a numeric Hz string/number like "440" or 430 */
   expectedNote?: string | number;
-  /** Override DSP config (advanced mode). Omit to use defaults. */
+  /**
+   * Override DSP config for this call (advanced mode). Omit to use defaults.
+   * Overridden filter settings run on fresh filters with no stream state;
+   * use updateConfig() for lasting changes.
+   */
   advancedConfig?: Partial<DSPConfig>;
   /** Enable/disable pitch smoothing on this call (default true). */
   smoothing?: boolean;
+  /**
+   * Samples from this frame's start to the next frame's start, for
+   * overlapping frames (the hop size, see iterateFrames). Filter state is kept
+   * at that point so the next frame continues the stream. Default: whole frame.
+   */
+  hop?: number;
+  /** A4 reference + temperament used for note names and expected notes (default A4 = 440 Hz, equal). */
+  tuning?: TuningConfig;
+  /** In-tune window around the expected note, ± cents (default DEFAULT_TOLERANCE_CENTS) */
+  tolerance?: number;
+}
+
+/** DSPConfig fields that shape the FilterBank */
+const FILTER_KEYS: (keyof DSPConfig)[] = [
+  "highPassCutoff",
+  "highPassQ",
+  "lowPassCutoff",
+  "lowPassQ",
+  "humFilter",
+  "humHarmonics",
+  "humNotchQ",
+  "humCutDb",
+  "filterChain",
+];
+
+/** Default in-tune window for expected notes, ± cents */
+export const DEFAULT_TOLERANCE_CENTS = 5;
+
+/** Pitch detector behind the engine */
+export type PitchDetectorKind = "yin" | "pyin";
+
+export interface PitchEngineOptions {
+  /** "yin" (default): single threshold. "pyin": probabilistic YIN + Viterbi tracking. */
+  detector?: PitchDetectorKind;
+  /** Extra pYIN settings (frequency range, HMM resolution, ...) */
+  pyin?: Omit<PYinConfig, "sampleRate">;
+  /** Extra multi-pitch settings for processFrameMulti (polyphony, salience cut-off, ...) */
+  multiPitch?: Omit<MultiPitchConfig, "sampleRate">;
+  /** Noise spectrum for DSPConfig.noiseReduction (see setNoiseProfile) */
+  noiseProfile?: NoiseProfile;
 }
 
 export interface PitchResult {
   /** Detected fundamental frequency in Hz (null if none) */
   frequency: number | null;
+  /** Detector output before median/EMA smoothing (equals frequency with smoothing off) */
+  rawFrequency: number | null;
   /** Best-effort note name for detected frequency (e.g., "C#4"), if frequency present */
   note?: string;
   /** YIN probability 0–1 (confidence). We NEVER hide low-confidence frames. */
   confidence: number;
-  /** Frame RMS (post-filters, pre-normalization gate) for visibility */
+  /** Frame RMS (post-filters and noise reduction, pre-normalization gate) for visibility */
   frameRMS: number;
+  /** Gate threshold used for this frame (noiseGateThreshold, or the adaptive one) */
+  gateThreshold?: number;
+  /** Pitched frame by the DSPConfig voicing thresholds; use this rather than a confidence cut-off */
+  voiced: boolean;
+  /** Set when voiced is false: silence (RMS), noise (aperiodicity / zero crossings), no-pitch, low-confidence */
+  unvoicedReason?: UnvoicedReason;
+  /** YIN aperiodicity of the frame (0 = periodic, ~1 = noise) */
+  aperiodicity: number;
+  /** Sign changes per sample pair of the processed frame (0–1) */
+  zeroCrossingRate: number;
   /** If the user provided an expectation, we echo it back in normalized form */
   expectedNote?: string;        // e.g., "C4" or "440 Hz"
   /** Human-friendly deviation text if expectation given, e.g., "+5.2 cents sharp" */
   deviation?: string;
+  /** Deviation from the expected note in cents (0.1 resolution), positive = sharp */
+  centsDeviation?: number;
+  /** |centsDeviation| within the tolerance (only with an expected note and a pitch) */
+  inTune?: boolean;
+  /** pYIN only: this frame's F0 candidates, most probable first */
+  candidates?: PitchCandidate[];
+}
+
+/** One of several simultaneous pitches (see MultiPitchResult) */
+export interface DetectedPitch {
+  /** Fundamental frequency in Hz */
+  frequency: number;
+  /** Nearest note of the tuning, e.g. "G#3" */
+  note: string;
+  /** Deviation from that note in cents (0.1 resolution) */
+  cents: number;
+  /** Harmonic salience relative to the strongest pitch in the frame (0–1) */
+  salience: number;
+}
+
+export interface MultiPitchResult {
+  /** Simultaneous fundamentals, most salient first (empty below the noise gate) */
+  pitches: DetectedPitch[];
+  /** Frame RMS (post-filters), as in PitchResult */
+  frameRMS: number;
 }
 
 /**
  * PitchEngine
- * - Runs optional DSP (HPF/LPF + normalization + soft gate)
- * - Applies YIN to detect F0
+ * - Runs optional DSP (HPF/LPF, hum notches, normalization + soft gate); filter state
+ *   carries across consecutive frames until reset()
+ * - Applies YIN (or pYIN with Viterbi tracking) to detect F0
  * - Optionally smooths detected pitch (median + EMA)
- * - Converts to note + cents deviation if an expected note was given
+ * - Classifies the frame voiced/unvoiced (RMS, aperiodicity, zero crossings, confidence)
+ * - Converts to note + cents deviation (text + number) and an in-tune verdict
+ *   if an expected note was given
+ * - processFrameMulti(): same preprocessing, then multi-pitch estimation (chords)
  */
 export class PitchEngine {
   private readonly sampleRate: number;
+  private readonly options: PitchEngineOptions;
   private dspConfig: DSPConfig;
-  private yin: Yin;
+  private yin!: Yin;
+  private pyin!: PYin | null;
+  private multiPitch: MultiPitchEstimator | null = null;
+  private filters: FilterBank;
   private median: MedianSmoother;
   private ema: MovingAverage;
+  private denoiser: SpectralDenoiser | null = null;
+  /** Set while learnNoiseProfile() collects frames; samples still to learn */
+  private profiling: { profiler: NoiseProfiler; remaining: number } | null = null;
+  private noiseFloor: NoiseFloorTracker;
+  private lastVoiced = false;
 
-  constructor(sampleRate: number, config: Partial<DSPConfig> = {}) {
+  /**
+   * @throws Error when frameSize is too short for minFrequency at this
+   * sample rate (see fitFrameSize in instruments.ts) or the range is invalid
+   */
+  constructor(sampleRate: number, config: Partial<DSPConfig> = {}, options: PitchEngineOptions = {}) {
     this.sampleRate = sampleRate;
+    this.options = options;
     this.dspConfig = { ...defaultDSPConfig, ...config };
-    this.yin = new Yin({ sampleRate: this.sampleRate, threshold: 0.10 });
+    this.buildDetectors();
+    this.filters = new FilterBank(this.sampleRate, this.dspConfig);
     // Smoothers for detected frequency, not samples
     this.median = new MedianSmoother(this.dspConfig.medianWindowSize);
     this.ema = new MovingAverage(this.dspConfig.movingAverageAlpha);
+    this.noiseFloor = new NoiseFloorTracker(3, this.initialNoiseFloor());
+    if (options.noiseProfile) this.setNoiseProfile(options.noiseProfile);
   }
 
   /**
@@ -63,17 +175,21 @@ export class PitchEngine {
   processFrame(frame: Float32Array, opts: ProcessOptions = {}): PitchResult {
     const cfg = { ...this.dspConfig, ...(opts.advancedConfig ?? {}) };
 
-    // 1) Filters (HPF/LPF), then RMS (for visibility), then normalization + soft gate
-    let processed = frame;
-    processed = applyFilters(processed, this.sampleRate, cfg);
-
-    // Measure RMS after filters (more meaningful)
-    const frameRMS = calculateRMS(processed);
-
-    processed = applyNoiseControl(processed, cfg);
+    // 1) Filters (HPF/hum notches/LPF), noise reduction, then RMS (for visibility), then normalization + soft gate
+    const { processed, frameRMS, gateThreshold } = this.preprocess(frame, cfg, opts.hop);
 
-    // 2) YIN pitch detection on processed frame
-    const { pitch, probability } = this.yin.detectPitch(processed);
+    // 2) Pitch detection on processed frame (YIN, or pYIN candidates → Viterbi step)
+    let pitch: number | null;
+    let probability: number;
+    let aperiodicity: number;
+    let candidates: PitchCandidate[] | undefined;
+    if (this.pyin) {
+      const observed = this.pyin.analyzeFrame(processed);
+      ({ pitch, probability, aperiodicity } = this.pyin.track(observed));
+      candidates = observed.candidates;
+    } else {
+      ({ pitch, probability, aperiodicity } = this.yin.detectPitch(processed));
+    }
 
     // 3) Optional smoothing on detected pitch (not applied to confidence)
     let smoothedPitch = pitch;
@@ -83,26 +199,45 @@ export class PitchEngine {
       smoothedPitch = this.ema.push(m);
     }
 
-    // 4) Build base result
+    // 4) Build base result, with the voiced/unvoiced decision on the raw detection
+    // The adaptive gate also decides silence: normalization would undo its attenuation
+    const zcr = zeroCrossingRate(processed);
+    const voicingConfig = cfg.enableNoiseGate && cfg.adaptiveNoiseGate
+      ? { ...cfg, voicingMinRMS: Math.max(cfg.voicingMinRMS ?? 0, gateThreshold) }
+      : cfg;
+    const { voiced, reason } = classifyVoicing(
+      { pitch, confidence: probability ?? 0, frameRMS, aperiodicity, zeroCrossingRate: zcr },
+      voicingConfig
+    );
+    this.lastVoiced = voiced;
     let result: PitchResult = {
       frequency: smoothedPitch ?? null,
+      rawFrequency: pitch ?? null,
       confidence: probability ?? 0,
-      frameRMS
+      frameRMS,
+      gateThreshold,
+      voiced,
+      aperiodicity,
+      zeroCrossingRate: zcr
     };
+    if (reason) result.unvoicedReason = reason;
+    if (candidates) result.candidates = candidates;
 
     // 5) Attach detected musical note (from detected frequency), if any
     if (result.frequency && result.frequency > 0) {
-      const { note } = frequencyToNote(result.frequency);
+      const { note } = frequencyToNote(result.frequency, opts.tuning);
       result.note = note;
     }
 
     // 6) If user provided an expected note, compute human-friendly cents deviation
     if (opts.expectedNote !== undefined && opts.expectedNote !== null) {
-      const expectedHz = this.normalizeExpected(opts.expectedNote);
+      const expectedHz = this.normalizeExpected(opts.expectedNote, opts.tuning);
       if (expectedHz && result.frequency && result.frequency > 0) {
         const cents = centsOffFromReference(result.frequency, expectedHz);
         result.expectedNote = this.describeExpected(opts.expectedNote, expectedHz);
         result.deviation = this.formatDeviation(cents);
+        result.centsDeviation = Math.round(cents * 10) / 10;
+        result.inTune = Math.abs(result.centsDeviation) <= (opts.tolerance ?? DEFAULT_TOLERANCE_CENTS);
       } else {
         // User sent something we couldn't parse; still echo intent
         result.expectedNote = typeof opts.expectedNote === "number"
@@ -114,13 +249,136 @@ export class PitchEngine {
     return result;
   }
 
+  /**
+   * Process one mono frame that may hold several notes (chords, double stops)
+   * Uses the same filters and filter state as processFrame; no smoothing.
+   * Only `advancedConfig`, `hop` and `tuning` from opts apply.
+   */
+  processFrameMulti(frame: Float32Array, opts: ProcessOptions = {}): MultiPitchResult {
+    const cfg = { ...this.dspConfig, ...(opts.advancedConfig ?? {}) };
+    const { processed, frameRMS, gateThreshold } = this.preprocess(frame, cfg, opts.hop);
+    if (cfg.enableNoiseGate && frameRMS < gateThreshold) {
+      return { pitches: [], frameRMS };
+    }
+
+    if (!this.multiPitch) {
+      this.multiPitch = new MultiPitchEstimator({
+        ...(this.dspConfig.minFrequency ? { minFrequency: this.dspConfig.minFrequency } : {}),
+        ...(this.dspConfig.maxFrequency ? { maxFrequency: this.dspConfig.maxFrequency } : {}),
+        ...this.options.multiPitch,
+        sampleRate: this.sampleRate,
+      });
+    }
+
+    const pitches = this.multiPitch.estimate(processed).map(({ frequency, salience }) => {
+      const { note } = frequencyToNote(frequency, opts.tuning);
+      const noteHz = parseExpectedNote(note, opts.tuning) ?? frequency;
+      return {
+        frequency,
+        note,
+        cents: Math.round(centsOffFromReference(frequency, noteHz) * 10) / 10,
+        salience,
+      };
+    });
+    return { pitches, frameRMS };
+  }
+
+  /**
+   * Filters (persistent state), noise profiling / reduction, RMS after both,
+   * gate threshold (fixed or adaptive), then normalization + soft gate
+   * Per-call overrides of the filter settings use a one-shot FilterBank; the
+   * persistent filters keep their settings and stream state.
+   */
+  private preprocess(
+    frame: Float32Array,
+    cfg: DSPConfig,
+    hop: number = frame.length
+  ): { processed: Float32Array; frameRMS: number; gateThreshold: number } {
+    // The persistent filters still run over an overridden frame, so the next one continues the stream
+    let filtered = this.filters.processFrame(frame, hop);
+    if (FILTER_KEYS.some((key) => JSON.stringify(cfg[key]) !== JSON.stringify(this.dspConfig[key]))) {
+      filtered = new FilterBank(this.sampleRate, cfg).processFrame(frame, hop);
+    }
+
+    if (this.profiling) {
+      this.profiling.profiler.push(filtered);
+      this.profiling.remaining -= hop;
+      if (this.profiling.remaining <= 0) {
+        const profile = this.profiling.profiler.profile();
+        this.profiling = null;
+        if (profile) this.setNoiseProfile(profile);
+      }
+    } else if (this.denoiser && cfg.noiseReduction && cfg.noiseReduction !== "off") {
+      filtered = this.denoiser.process(filtered, {
+        method: cfg.noiseReduction,
+        amount: cfg.noiseReductionAmount ?? 1,
+        floor: cfg.noiseReductionFloor ?? 0,
+      });
+    }
+
+    // Measure RMS after filters (more meaningful)
+    const frameRMS = calculateRMS(filtered);
+    // The floor only rises between notes, so a held note isn't taken for noise
+    const floor = this.noiseFloor.push(frameRMS, hop / this.sampleRate, this.lastVoiced);
+    const gateThreshold = cfg.adaptiveNoiseGate
+      ? adaptiveGateThreshold(floor, cfg.noiseGateMarginDb ?? 6)
+      : cfg.noiseGateThreshold;
+    return { processed: applyNoiseControl(filtered, cfg, gateThreshold), frameRMS, gateThreshold };
+  }
+
+  /**
+   * Use `profile` for noise reduction (null removes it); the adaptive gate
+   * restarts from the profile's RMS
+   */
+  setNoiseProfile(profile: NoiseProfile | null): void {
+    this.profiling = null;
+    this.denoiser = profile ? new SpectralDenoiser(profile, this.sampleRate) : null;
+    this.noiseFloor.reset(this.initialNoiseFloor());
+  }
+
+  /**
+   * Adaptive gate start: the profile's RMS, else the level that puts the
+   * threshold at noiseGateThreshold (audio that starts mid-note isn't taken for noise)
+   */
+  private initialNoiseFloor(): number {
+    const profile = this.denoiser?.profile;
+    if (profile) return profile.rms;
+    return this.dspConfig.noiseGateThreshold / Math.pow(10, (this.dspConfig.noiseGateMarginDb ?? 6) / 20);
+  }
+
+  /** Noise spectrum in use, if any */
+  get noiseProfile(): NoiseProfile | null {
+    return this.denoiser?.profile ?? null;
+  }
+
+  /** True while learnNoiseProfile() is still collecting frames */
+  get learningNoise(): boolean {
+    return this.profiling !== null;
+  }
+
+  /** Mains frequency being notched: fixed by humFilter, or found by "auto" (null until then) */
+  get humFrequency(): HumFrequency | null {
+    return this.filters.humFrequency;
+  }
+
+  /**
+   * Learn the noise profile from the next `milliseconds` of input (default
+   * DSPConfig.noiseProfileMs), e.g. the start of live input before playing.
+   * Those frames are analyzed without noise reduction; the profile replaces
+   * any previous one once complete.
+   */
+  learnNoiseProfile(milliseconds: number = this.dspConfig.noiseProfileMs ?? 500): void {
+    const samples = Math.round((milliseconds / 1000) * this.sampleRate);
+    this.profiling = samples > 0 ? { profiler: new NoiseProfiler(this.sampleRate), remaining: samples } : null;
+  }
+
   /**
    * Normalize expected note input into Hz
-   * Accepts: "C4", "Bb3", "440", 430, etc.
+   * Accepts: "C4", "Bb3", "440", 430, etc. Note names follow the given tuning.
    */
-  private normalizeExpected(input: string | number): number | null {
+  private normalizeExpected(input: string | number, tuning?: TuningConfig): number | null {
     if (typeof input === "number") return input > 0 ? input : null;
-    const parsed = parseExpectedNote(input);
+    const parsed = parseExpectedNote(input, tuning);
     return parsed && parsed > 0 ? parsed : null;
   }
 
@@ -150,9 +408,87 @@ export class PitchEngine {
    * Replace DSP defaults at runtime (Advanced Mode)
    */
   updateConfig(config: Partial<DSPConfig>) {
+    const changed = (key: keyof DSPConfig) => config[key] !== undefined && config[key] !== this.dspConfig[key];
+    const rangeChanged = changed("minFrequency") || changed("maxFrequency");
+    const medianChanged = changed("medianWindowSize");
+    const alphaChanged = changed("movingAverageAlpha");
     this.dspConfig = { ...this.dspConfig, ...config };
-    // keep smoother parameters in sync if provided
-    if (config.medianWindowSize) this.median = new MedianSmoother(config.medianWindowSize);
-    if (config.movingAverageAlpha) this.ema = new MovingAverage(config.movingAverageAlpha);
+    // new F0 range → new detectors (pYIN restarts its track); always re-check the frame size
+    if (rangeChanged) this.buildDetectors();
+    else this.checkFrameSize();
+    // rebuild filters only if cutoffs/Q changed (state is kept otherwise)
+    this.filters.configure(this.dspConfig);
+    // keep smoother parameters in sync (a full config passed again keeps the smoother history)
+    if (medianChanged) this.median = new MedianSmoother(this.dspConfig.medianWindowSize);
+    if (alphaChanged) this.ema = new MovingAverage(this.dspConfig.movingAverageAlpha);
+  }
+
+  /**
+   * (Re)create YIN / pYIN for the configured frequency range
+   */
+  private buildDetectors(): void {
+    this.checkFrameSize();
+    const minFrequency = this.dspConfig.minFrequency || undefined;
+    const maxFrequency = this.dspConfig.maxFrequency || undefined;
+    this.yin = new Yin({
+      sampleRate: this.sampleRate,
+      threshold: 0.10,
+      differenceMethod: "fft",
+      minFrequency,
+      maxFrequency,
+    });
+    // pYIN keeps its own 50–2000 Hz defaults unless the config sets a bound
+    this.pyin = this.options.detector === "pyin"
+      ? new PYin({
+          ...(minFrequency ? { minFrequency } : {}),
+          ...(maxFrequency ? { maxFrequency } : {}),
+          ...this.options.pyin,
+          sampleRate: this.sampleRate,
+        })
+      : null;
+    // Multi-pitch estimator is created on first use with the current range
+    this.multiPitch = null;
+  }
+
+  private checkFrameSize(): void {
+    const { minFrequency, frameSize } = this.dspConfig;
+    if (!minFrequency || minFrequency <= 0) return;
+    const required = requiredFrameSize(minFrequency, this.sampleRate);
+    if (frameSize < required) {
+      throw new Error(
+        `frameSize ${frameSize} is too short for minFrequency ${minFrequency} Hz at ${this.sampleRate} Hz ` +
+          `(needs at least ${required} samples)`
+      );
+    }
+  }
+
+  /**
+   * pYIN only: Viterbi-decoded pitch track over the frames since the last
+   * reset(), with look-ahead (unlike the online per-frame estimate).
+   * Only the last pyin.maxHistory frames are kept: the track starts at frame
+   * decodedFrom, so offline callers that need every frame pass
+   * { pyin: { maxHistory: Infinity } }.
+   * Returns null with the plain YIN detector.
+   */
+  decodePitchTrack(): (number | null)[] | null {
+    return this.pyin ? this.pyin.decode() : null;
+  }
+
+  /** Index (since the last reset) of the first frame in decodePitchTrack(); 0 with YIN */
+  get decodedFrom(): number {
+    return this.pyin ? this.pyin.firstDecodedFrame : 0;
+  }
+
+  /**
+   * Forget all stream history (filter memory + pitch smoothers).
+   * Call when the input stream restarts, e.g. a new file or mic session.
+   */
+  reset() {
+    this.filters.reset();
+    this.pyin?.reset();
+    this.median.reset();
+    this.ema.reset();
+    this.noiseFloor.reset(this.initialNoiseFloor());
+    this.lastVoiced = false;
   }
 }
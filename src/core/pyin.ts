@@ -0,0 +1,306 @@
+// pyin.ts
+// Probabilistic YIN (Mauch & Dixon, 2014): multi-threshold pitch candidates
+// per frame + HMM/Viterbi tracking with voiced/unvoiced states
+
+import { Yin } from "./yin.js";
+import type { YinResult, DifferenceMethod } from "./yin.js";
+
+export interface PitchCandidate {
+  frequency: number;    // Hz
+  probability: number;  // Share of the threshold distribution voting for this dip (0–1)
+}
+
+export interface PYinFrame {
+  /** Candidates sorted by probability, highest first */
+  candidates: PitchCandidate[];
+  /** Total probability that the frame is voiced (sum of candidate probabilities) */
+  voicedProbability: number;
+  /** Lowest CMND value in the lag range (YIN aperiodicity, 1 when the range is empty) */
+  aperiodicity: number;
+}
+
+export interface PYinEstimate extends YinResult {
+  voiced: boolean;
+}
+
+export interface PYinConfig {
+  sampleRate: number;
+  minFrequency?: number;          // Lowest tracked F0 in Hz (default 50)
+  maxFrequency?: number;          // Highest tracked F0 in Hz (default 2000)
+  betaMean?: number;              // Mean of the Beta threshold prior: 0.10, 0.15 or 0.20 (default 0.10)
+  binsPerSemitone?: number;       // HMM pitch resolution (default 5 → 20 cent bins)
+  maxJumpSemitones?: number;      // Widest pitch move between frames (default 5)
+  voicingSwitchProbability?: number; // Voiced ↔ unvoiced transition probability (default 0.01)
+  differenceMethod?: DifferenceMethod; // Default "fft"
+  maxHistory?: number;            // Frames kept for decode() (default 10000; Infinity keeps all)
+}
+
+/** One track() step kept for decode() */
+interface PYinStep {
+  backpointers: Int32Array;
+  candidates: PitchCandidate[];
+}
+
+// Beta(α, β) parameters for the threshold prior, from the pYIN paper
+const BETA_PARAMS: Record<string, [number, number]> = {
+  "0.1": [2, 18],
+  "0.15": [2, 11.33],
+  "0.2": [2, 8],
+};
+const THRESHOLD_COUNT = 100;        // thresholds 0.01 … 1.00
+const ABSOLUTE_MIN_PRIOR = 0.01;    // weight given to the global minimum when no dip passes
+const LOG_FLOOR = Math.log(1e-12);
+
+/**
+ * PYin
+ * - analyzeFrame(): candidate F0s with probabilities for one frame
+ * - track(): online Viterbi step (forward pass, best current state)
+ * - decode(): full Viterbi backtrack over the tracked frames (batch use)
+ * - detectPitch(): analyzeFrame + track, same shape as Yin.detectPitch
+ */
+export class PYin {
+  private readonly sampleRate: number;
+  private readonly minFrequency: number;
+  private readonly maxFrequency: number;
+  private readonly binsPerSemitone: number;
+  private readonly nBins: number;
+  private readonly maxHistory: number;
+  private readonly yin: Yin;
+  private readonly thresholdWeights: Float64Array;
+  private readonly logTransition: Float64Array;   // by bin distance
+  private readonly logStay: number;
+  private readonly logSwitch: number;
+
+  private delta: Float64Array | null = null;
+  // Ring buffer of the last maxHistory steps; history[historyStart] is the oldest
+  private history: PYinStep[] = [];
+  private historyStart = 0;
+  private tracked = 0;
+
+  constructor(config: PYinConfig) {
+    this.sampleRate = config.sampleRate;
+    this.minFrequency = config.minFrequency ?? 50;
+    this.maxFrequency = config.maxFrequency ?? 2000;
+    if (!(this.minFrequency > 0) || !(this.maxFrequency > this.minFrequency)) {
+      throw new Error(`Invalid pYIN frequency range: ${this.minFrequency}–${this.maxFrequency} Hz`);
+    }
+    this.binsPerSemitone = config.binsPerSemitone ?? 5;
+    this.nBins = Math.floor(12 * this.binsPerSemitone * Math.log2(this.maxFrequency / this.minFrequency)) + 1;
+    this.maxHistory = config.maxHistory ?? 10000;
+    this.yin = new Yin({ sampleRate: this.sampleRate, differenceMethod: config.differenceMethod ?? "fft" });
+
+    // Threshold prior: Beta pdf sampled at 0.01 … 1.00, normalized
+    const [a, b] = BETA_PARAMS[String(config.betaMean ?? 0.1)] ?? BETA_PARAMS["0.1"];
+    this.thresholdWeights = new Float64Array(THRESHOLD_COUNT);
+    let total = 0;
+    for (let i = 0; i < THRESHOLD_COUNT; i++) {
+      const x = (i + 1) / THRESHOLD_COUNT;
+      const w = x < 1 ? Math.pow(x, a - 1) * Math.pow(1 - x, b - 1) : 0;
+      this.thresholdWeights[i] = w;
+      total += w;
+    }
+    for (let i = 0; i < THRESHOLD_COUNT; i++) this.thresholdWeights[i] /= total;
+
+    // Triangular pitch transition over ±width bins
+    const width = Math.max(1, Math.round((config.maxJumpSemitones ?? 5) * this.binsPerSemitone));
+    this.logTransition = new Float64Array(width + 1);
+    let norm = width + 1;
+    for (let d = 1; d <= width; d++) norm += 2 * (width + 1 - d);
+    for (let d = 0; d <= width; d++) this.logTransition[d] = Math.log((width + 1 - d) / norm);
+
+    const switchProb = config.voicingSwitchProbability ?? 0.01;
+    this.logStay = Math.log(1 - switchProb);
+    this.logSwitch = Math.log(switchProb);
+  }
+
+  /**
+   * Candidate F0s for one frame: every threshold of the Beta prior votes for
+   * the first CMND dip below it (or, weakly, for the global minimum)
+   */
+  analyzeFrame(buffer: Float32Array): PYinFrame {
+    const cmnd = this.yin.cumulativeMeanNormalizedDifference(buffer);
+    const minTau = Math.max(2, Math.floor(this.sampleRate / this.maxFrequency));
+    const maxTau = Math.min(cmnd.length - 1, Math.ceil(this.sampleRate / this.minFrequency));
+    if (maxTau <= minTau) return { candidates: [], voicedProbability: 0, aperiodicity: 1 };
+
+    // Local minima in the allowed lag range
+    const dips: number[] = [];
+    let globalMin = minTau;
+    for (let tau = minTau; tau < maxTau; tau++) {
+      if (cmnd[tau] < cmnd[globalMin]) globalMin = tau;
+      if (cmnd[tau] < cmnd[tau - 1] && cmnd[tau] <= cmnd[tau + 1]) dips.push(tau);
+    }
+
+    const votes = new Map<number, number>();
+    for (let i = 0; i < THRESHOLD_COUNT; i++) {
+      const threshold = (i + 1) / THRESHOLD_COUNT;
+      const weight = this.thresholdWeights[i];
+      if (weight === 0) continue;
+      const dip = dips.find((tau) => cmnd[tau] < threshold);
+      if (dip !== undefined) {
+        votes.set(dip, (votes.get(dip) ?? 0) + weight);
+      } else {
+        votes.set(globalMin, (votes.get(globalMin) ?? 0) + weight * ABSOLUTE_MIN_PRIOR);
+      }
+    }
+
+    const candidates: PitchCandidate[] = [];
+    let voicedProbability = 0;
+    for (const [tau, probability] of votes) {
+      const frequency = this.sampleRate / this.yin.parabolicInterpolation(cmnd, tau);
+      if (!isFinite(frequency) || frequency < this.minFrequency || frequency > this.maxFrequency) continue;
+      candidates.push({ frequency, probability });
+      voicedProbability += probability;
+    }
+    candidates.sort((x, y) => y.probability - x.probability);
+    return { candidates, voicedProbability: Math.min(1, voicedProbability), aperiodicity: cmnd[globalMin] };
+  }
+
+  /**
+   * Online Viterbi step: advance the HMM by one frame and report the most
+   * likely current state (no look-ahead)
+   */
+  track(frame: PYinFrame): PYinEstimate {
+    const n = this.nBins;
+    const obs = this.observationLog(frame);
+    const next = new Float64Array(2 * n);
+    const backpointers = new Int32Array(2 * n);
+
+    if (!this.delta) {
+      const logInit = -Math.log(2 * n);
+      for (let s = 0; s < 2 * n; s++) next[s] = logInit + obs[s];
+    } else {
+      const prev = this.delta;
+      const width = this.logTransition.length - 1;
+      for (let j = 0; j < n; j++) {
+        let bestVoiced = -Infinity;
+        let bestVoicedFrom = j;
+        let bestUnvoiced = -Infinity;
+        let bestUnvoicedFrom = n + j;
+        const lo = Math.max(0, j - width);
+        const hi = Math.min(n - 1, j + width);
+        for (let i = lo; i <= hi; i++) {
+          const t = this.logTransition[Math.abs(i - j)];
+          // into voiced j
+          const vv = prev[i] + t + this.logStay;
+          if (vv > bestVoiced) { bestVoiced = vv; bestVoicedFrom = i; }
+          const uv = prev[n + i] + t + this.logSwitch;
+          if (uv > bestVoiced) { bestVoiced = uv; bestVoicedFrom = n + i; }
+          // into unvoiced j
+          const uu = prev[n + i] + t + this.logStay;
+          if (uu > bestUnvoiced) { bestUnvoiced = uu; bestUnvoicedFrom = n + i; }
+          const vu = prev[i] + t + this.logSwitch;
+          if (vu > bestUnvoiced) { bestUnvoiced = vu; bestUnvoicedFrom = i; }
+        }
+        next[j] = bestVoiced + obs[j];
+        backpointers[j] = bestVoicedFrom;
+        next[n + j] = bestUnvoiced + obs[n + j];
+        backpointers[n + j] = bestUnvoicedFrom;
+      }
+    }
+
+    // Renormalize so log values don't drift towards -Infinity
+    let best = 0;
+    for (let s = 1; s < 2 * n; s++) if (next[s] > next[best]) best = s;
+    const peak = next[best];
+    for (let s = 0; s < 2 * n; s++) next[s] -= peak;
+    this.delta = next;
+
+    const step = { backpointers, candidates: frame.candidates };
+    if (this.history.length < this.maxHistory) {
+      this.history.push(step);
+    } else {
+      this.history[this.historyStart] = step;
+      this.historyStart = (this.historyStart + 1) % this.history.length;
+    }
+    this.tracked++;
+
+    return this.stateToEstimate(best, frame);
+  }
+
+  /**
+   * Full Viterbi backtrack over the frames passed to track(), the last
+   * maxHistory of them at most (see firstDecodedFrame)
+   * @returns one frequency per frame, null where the path is unvoiced
+   */
+  decode(): (number | null)[] {
+    if (!this.delta || this.history.length === 0) return [];
+    let state = 0;
+    for (let s = 1; s < this.delta.length; s++) if (this.delta[s] > this.delta[state]) state = s;
+
+    const count = this.history.length;
+    const path: (number | null)[] = new Array(count);
+    for (let t = count - 1; t >= 0; t--) {
+      const { backpointers, candidates } = this.history[(this.historyStart + t) % count];
+      path[t] = state < this.nBins ? this.binFrequency(state, candidates) : null;
+      state = backpointers[state];
+    }
+    return path;
+  }
+
+  /** Index (since the last reset) of the frame decode() starts at; > 0 once history overflowed */
+  get firstDecodedFrame(): number {
+    return this.tracked - this.history.length;
+  }
+
+  /**
+   * Yin-compatible entry point: analyze + online track
+   */
+  detectPitch(buffer: Float32Array): PYinEstimate {
+    return this.track(this.analyzeFrame(buffer));
+  }
+
+  reset(): void {
+    this.delta = null;
+    this.history = [];
+    this.historyStart = 0;
+    this.tracked = 0;
+  }
+
+  private binOf(frequency: number): number {
+    const b = Math.round(12 * this.binsPerSemitone * Math.log2(frequency / this.minFrequency));
+    return Math.max(0, Math.min(this.nBins - 1, b));
+  }
+
+  /**
+   * Log observation probabilities: voiced bins get their candidates' mass,
+   * unvoiced states share the remaining mass uniformly
+   */
+  private observationLog(frame: PYinFrame): Float64Array {
+    const n = this.nBins;
+    const obs = new Float64Array(2 * n);
+    for (const c of frame.candidates) obs[this.binOf(c.frequency)] += c.probability;
+    const unvoiced = Math.max(0, 1 - frame.voicedProbability) / n;
+    for (let b = 0; b < n; b++) {
+      obs[b] = obs[b] > 0 ? Math.log(obs[b]) : LOG_FLOOR;
+      obs[n + b] = unvoiced > 0 ? Math.log(unvoiced) : LOG_FLOOR;
+    }
+    return obs;
+  }
+
+  /**
+   * Frequency for a voiced bin: the strongest candidate within half a
+   * semitone, else the bin centre
+   */
+  private binFrequency(bin: number, candidates: PitchCandidate[]): number {
+    const centre = this.minFrequency * Math.pow(2, bin / (12 * this.binsPerSemitone));
+    let best: PitchCandidate | null = null;
+    for (const c of candidates) {
+      if (Math.abs(1200 * Math.log2(c.frequency / centre)) > 50) continue;
+      if (!best || c.probability > best.probability) best = c;
+    }
+    return best ? best.frequency : centre;
+  }
+
+  private stateToEstimate(state: number, frame: PYinFrame): PYinEstimate {
+    if (state >= this.nBins) {
+      return { pitch: null, probability: frame.voicedProbability, aperiodicity: frame.aperiodicity, voiced: false };
+    }
+    return {
+      pitch: this.binFrequency(state, frame.candidates),
+      probability: frame.voicedProbability,
+      aperiodicity: frame.aperiodicity,
+      voiced: true,
+    };
+  }
+}
@@ -0,0 +1,211 @@
+// core/segmentation.ts
+// Note segmentation: turns the per-frame PitchResult stream into note events
+// using RMS onsets, pitch jumps and confidence drops.
+
+import type { PitchResult } from "./pitch-engine.js";
+import { centsOffFromReference, frequencyToNote, parseExpectedNote } from "./note-utils.js";
+import type { TuningConfig } from "./note-utils.js";
+
+export interface SegmentationOptions {
+  /** Frames below this confidence end the current note (default 0.6) */
+  minConfidence?: number;
+  /** Frames below this RMS are silence and end the current note (default 0.01) */
+  silenceRMS?: number;
+  /** RMS rising by at least this factor frame-to-frame is a re-attack (default 2) */
+  onsetRatio?: number;
+  /** Distance from the running note pitch that counts as a new note, in cents (default 50) */
+  pitchJumpCents?: number;
+  /** Consecutive frames a pitch jump must last before it splits the note (default 2) */
+  minJumpFrames?: number;
+  /** Notes shorter than this are dropped, in seconds (default 0.05) */
+  minNoteDuration?: number;
+  /** Frames within this many cents of the median count as stable (default 20) */
+  stableCents?: number;
+  /** Tuning used for note names and cents */
+  tuning?: TuningConfig;
+}
+
+export interface NoteEvent {
+  /** Time of the first frame of the note (s) */
+  onset: number;
+  /** Time of the frame that ended the note, or of its last frame at end of stream (s) */
+  offset: number;
+  duration: number;
+  /** Median frequency over the note (Hz) */
+  frequency: number;
+  /** Nearest note to the median frequency */
+  note: string;
+  /** Mean deviation of the frames from that note (cents) */
+  cents: number;
+  /** Share of frames within `stableCents` of the median pitch (0–1) */
+  stability: number;
+  /** Mean YIN confidence over the note */
+  confidence: number;
+  frames: number;
+}
+
+interface SegmentFrame {
+  time: number;
+  frequency: number;
+  confidence: number;
+}
+
+const DEFAULTS: Required<Omit<SegmentationOptions, "tuning">> = {
+  minConfidence: 0.6,
+  silenceRMS: 0.01,
+  onsetRatio: 2,
+  pitchJumpCents: 50,
+  minJumpFrames: 2,
+  minNoteDuration: 0.05,
+  stableCents: 20,
+};
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * NoteSegmenter
+ * Streaming: push() one frame at a time (live or batch), finish() at end of stream.
+ * Completed notes are returned as soon as they close.
+ */
+export class NoteSegmenter {
+  private readonly opts: Required<Omit<SegmentationOptions, "tuning">>;
+  private readonly tuning?: TuningConfig;
+  private current: SegmentFrame[] = [];
+  private pending: SegmentFrame[] = [];
+  private prevRMS = 0;
+  private lastTime = 0;
+
+  constructor(options: SegmentationOptions = {}) {
+    const { tuning, ...rest } = options;
+    this.opts = { ...DEFAULTS, ...rest };
+    this.tuning = tuning;
+  }
+
+  /**
+   * Feed one analyzed frame
+   * @param time frame time in seconds (e.g. AudioFrame.time)
+   * @returns notes completed by this frame (usually none)
+   */
+  push(result: PitchResult, time: number): NoteEvent[] {
+    const done: NoteEvent[] = [];
+    const rms = result.frameRMS;
+    const voiced =
+      result.voiced &&
+      result.frequency !== null &&
+      result.frequency > 0 &&
+      result.confidence >= this.opts.minConfidence &&
+      rms >= this.opts.silenceRMS;
+    const onset =
+      this.prevRMS >= this.opts.silenceRMS && rms >= this.prevRMS * this.opts.onsetRatio;
+    this.prevRMS = rms;
+    this.lastTime = time;
+
+    if (!voiced) {
+      this.close(time, done);
+      return done;
+    }
+
+    const frame: SegmentFrame = { time, frequency: result.frequency!, confidence: result.confidence };
+
+    if (this.current.length === 0) {
+      this.current.push(frame);
+      return done;
+    }
+
+    if (onset) {
+      this.close(time, done);
+      this.current.push(frame);
+      return done;
+    }
+
+    const reference = median(this.current.map((f) => f.frequency));
+    const jump = Math.abs(centsOffFromReference(frame.frequency, reference)) > this.opts.pitchJumpCents;
+    if (!jump) {
+      // A short excursion (single octave error, glitch) is dropped
+      this.pending = [];
+      this.current.push(frame);
+      return done;
+    }
+
+    this.pending.push(frame);
+    if (this.pending.length >= this.opts.minJumpFrames) {
+      const next = this.pending;
+      this.pending = [];
+      this.close(next[0].time, done);
+      this.current = next;
+    }
+    return done;
+  }
+
+  /**
+   * Close any open note at end of stream
+   */
+  finish(): NoteEvent[] {
+    const done: NoteEvent[] = [];
+    this.close(this.lastTime, done);
+    return done;
+  }
+
+  reset(): void {
+    this.current = [];
+    this.pending = [];
+    this.prevRMS = 0;
+    this.lastTime = 0;
+  }
+
+  private close(offset: number, out: NoteEvent[]): void {
+    const frames = this.current;
+    this.current = [];
+    this.pending = [];
+    if (frames.length === 0) return;
+
+    const onset = frames[0].time;
+    const duration = offset - onset;
+    if (duration < this.opts.minNoteDuration) return;
+
+    const frequency = median(frames.map((f) => f.frequency));
+    const { note } = frequencyToNote(frequency, this.tuning);
+    const noteHz = parseExpectedNote(note, this.tuning) ?? frequency;
+
+    let centsSum = 0;
+    let confidenceSum = 0;
+    let stable = 0;
+    for (const f of frames) {
+      centsSum += centsOffFromReference(f.frequency, noteHz);
+      confidenceSum += f.confidence;
+      if (Math.abs(centsOffFromReference(f.frequency, frequency)) <= this.opts.stableCents) stable++;
+    }
+
+    out.push({
+      onset,
+      offset,
+      duration,
+      frequency,
+      note,
+      cents: centsSum / frames.length,
+      stability: stable / frames.length,
+      confidence: confidenceSum / frames.length,
+      frames: frames.length,
+    });
+  }
+}
+
+/**
+ * Batch helper: segment a whole list of timed results
+ */
+export function segmentNotes(
+  frames: { time: number; result: PitchResult }[],
+  options: SegmentationOptions = {}
+): NoteEvent[] {
+  const segmenter = new NoteSegmenter(options);
+  const notes: NoteEvent[] = [];
+  for (const { time, result } of frames) {
+    notes.push(...segmenter.push(result, time));
+  }
+  notes.push(...segmenter.finish());
+  return notes;
+}
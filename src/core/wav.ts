@@ -0,0 +1,207 @@
+// core/wav.ts
+// Built-in WAV (RIFF/WAVE) reader: 8/16/24/32-bit PCM, 32/64-bit float,
+// WAVE_FORMAT_EXTENSIBLE, any channel count. No Node or DOM dependencies.
+
+export interface DecodedWav {
+  sampleRate: number;
+  numberOfChannels: number;
+  /** Samples per channel */
+  length: number;
+  /** Container bits per sample (8, 16, 24, 32, 64) */
+  bitDepth: number;
+  encoding: "pcm" | "float";
+  /** One Float32Array per channel, scaled to [-1, 1] */
+  channelData: Float32Array[];
+}
+
+/** Channel choice for mono analysis: an index, or "mix" to average all channels */
+export type ChannelSelection = number | "mix";
+
+const WAVE_FORMAT_PCM = 0x0001;
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+// Format tags we can name in error messages
+const KNOWN_FORMATS: Record<number, string> = {
+  0x0002: "Microsoft ADPCM",
+  0x0006: "A-law",
+  0x0007: "µ-law",
+  0x0011: "IMA ADPCM",
+  0x0055: "MP3",
+};
+
+interface WavFormat {
+  encoding: "pcm" | "float";
+  numberOfChannels: number;
+  sampleRate: number;
+  blockAlign: number;
+  bitDepth: number;
+}
+
+function fourCC(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+function describeFormat(tag: number): string {
+  const name = KNOWN_FORMATS[tag];
+  const hex = `0x${tag.toString(16).padStart(4, "0")}`;
+  return name ? `${name} (${hex})` : hex;
+}
+
+function parseFormatChunk(view: DataView, offset: number, size: number): WavFormat {
+  if (size < 16) throw new Error(`WAV: fmt chunk too short (${size} bytes)`);
+  let tag = view.getUint16(offset, true);
+  const numberOfChannels = view.getUint16(offset + 2, true);
+  const sampleRate = view.getUint32(offset + 4, true);
+  const blockAlign = view.getUint16(offset + 12, true);
+  const bitDepth = view.getUint16(offset + 14, true);
+
+  if (tag === WAVE_FORMAT_EXTENSIBLE) {
+    if (size < 40) throw new Error(`WAV: WAVE_FORMAT_EXTENSIBLE fmt chunk too short (${size} bytes)`);
+    // SubFormat GUID starts at offset 24; its first two bytes are the real format tag
+    tag = view.getUint16(offset + 24, true);
+  }
+
+  let encoding: "pcm" | "float";
+  if (tag === WAVE_FORMAT_PCM) {
+    if (![8, 16, 24, 32].includes(bitDepth)) {
+      throw new Error(`WAV: unsupported PCM bit depth ${bitDepth} (expected 8, 16, 24 or 32)`);
+    }
+    encoding = "pcm";
+  } else if (tag === WAVE_FORMAT_IEEE_FLOAT) {
+    if (bitDepth !== 32 && bitDepth !== 64) {
+      throw new Error(`WAV: unsupported float bit depth ${bitDepth} (expected 32 or 64)`);
+    }
+    encoding = "float";
+  } else {
+    throw new Error(`WAV: unsupported encoding ${describeFormat(tag)}; only PCM and IEEE float are supported`);
+  }
+
+  if (numberOfChannels === 0) throw new Error("WAV: fmt chunk declares 0 channels");
+  if (sampleRate === 0) throw new Error("WAV: fmt chunk declares a 0 Hz sample rate");
+  if (blockAlign < numberOfChannels * (bitDepth / 8)) {
+    throw new Error(`WAV: block align ${blockAlign} too small for ${numberOfChannels} × ${bitDepth}-bit samples`);
+  }
+
+  return { encoding, numberOfChannels, sampleRate, blockAlign, bitDepth };
+}
+
+function sampleReader(view: DataView, format: WavFormat): (offset: number) => number {
+  if (format.encoding === "float") {
+    return format.bitDepth === 32
+      ? (o) => view.getFloat32(o, true)
+      : (o) => view.getFloat64(o, true);
+  }
+  switch (format.bitDepth) {
+    case 8:
+      return (o) => (view.getUint8(o) - 128) / 128; // 8-bit PCM is unsigned
+    case 16:
+      return (o) => view.getInt16(o, true) / 32768;
+    case 24:
+      return (o) => {
+        const v = view.getUint8(o) | (view.getUint8(o + 1) << 8) | (view.getInt8(o + 2) << 16);
+        return v / 8388608;
+      };
+    default:
+      return (o) => view.getInt32(o, true) / 2147483648;
+  }
+}
+
+/**
+ * Decode a WAV file held in memory
+ * Throws an Error with a readable message for anything it cannot read
+ * (RF64/RIFX containers, compressed encodings, missing chunks, bad headers).
+ */
+export function decodeWav(data: ArrayBuffer | ArrayBufferView): DecodedWav {
+  const view = data instanceof ArrayBuffer
+    ? new DataView(data)
+    : new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  if (view.byteLength < 12) throw new Error("WAV: file too short for a RIFF header");
+  const riff = fourCC(view, 0);
+  if (riff === "RF64" || riff === "RIFX") {
+    throw new Error(`WAV: ${riff} containers are not supported`);
+  }
+  if (riff !== "RIFF" || fourCC(view, 8) !== "WAVE") {
+    throw new Error("WAV: not a RIFF/WAVE file");
+  }
+
+  let format: WavFormat | null = null;
+  let offset = 12;
+  while (offset + 8 <= view.byteLength) {
+    const id = fourCC(view, offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === "fmt ") {
+      if (body + size > view.byteLength) throw new Error("WAV: fmt chunk is truncated");
+      format = parseFormatChunk(view, body, size);
+    } else if (id === "data") {
+      if (!format) throw new Error("WAV: data chunk found before fmt chunk");
+      // Tolerate a truncated data chunk (interrupted recordings): read what is there
+      const available = Math.min(size, view.byteLength - body);
+      return readSamples(view, body, available, format);
+    }
+    // Other chunks (LIST, fact, cue, bext, ...) are skipped; chunks are word-aligned
+    offset = body + size + (size & 1);
+  }
+
+  throw new Error(format ? "WAV: no data chunk" : "WAV: no fmt chunk");
+}
+
+function readSamples(view: DataView, start: number, byteLength: number, format: WavFormat): DecodedWav {
+  const { numberOfChannels, blockAlign, bitDepth } = format;
+  const length = Math.floor(byteLength / blockAlign);
+  const bytesPerSample = bitDepth / 8;
+  const read = sampleReader(view, format);
+
+  const channelData: Float32Array[] = [];
+  for (let ch = 0; ch < numberOfChannels; ch++) channelData.push(new Float32Array(length));
+
+  for (let i = 0; i < length; i++) {
+    const frameOffset = start + i * blockAlign;
+    for (let ch = 0; ch < numberOfChannels; ch++) {
+      channelData[ch][i] = read(frameOffset + ch * bytesPerSample);
+    }
+  }
+
+  return {
+    sampleRate: format.sampleRate,
+    numberOfChannels,
+    length,
+    bitDepth,
+    encoding: format.encoding,
+    channelData,
+  };
+}
+
+/**
+ * Average all channels into one (a mono input is returned as-is, not copied)
+ */
+export function mixToMono(channels: Float32Array[]): Float32Array {
+  if (channels.length === 0) return new Float32Array(0);
+  if (channels.length === 1) return channels[0];
+  const length = Math.min(...channels.map((c) => c.length));
+  const mono = new Float32Array(length);
+  const scale = 1 / channels.length;
+  for (const channel of channels) {
+    for (let i = 0; i < length; i++) mono[i] += channel[i] * scale;
+  }
+  return mono;
+}
+
+/**
+ * Mono signal for analysis: one channel by index, or the mix of all channels
+ */
+export function selectChannel(channels: Float32Array[], selection: ChannelSelection = "mix"): Float32Array {
+  if (selection === "mix") return mixToMono(channels);
+  if (!Number.isInteger(selection) || selection < 0 || selection >= channels.length) {
+    throw new Error(`Channel ${selection} out of range (file has ${channels.length} channel(s))`);
+  }
+  return channels[selection];
+}
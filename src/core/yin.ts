@@ -1,23 +1,55 @@
 // yin.ts
 // Core YIN pitch detection algorithm in TypeScript
 
+import { fft, nextPowerOfTwo } from "./dsp/fft.js";
+
 export interface YinResult {
   pitch: number | null;       // Detected fundamental frequency (Hz)
   probability: number;        // Confidence (0–1)
+  aperiodicity: number;       // CMND at the chosen lag, or its minimum in range when none passed (0 = periodic, ~1 = noise)
 }
 
+/**
+ * How step 1 (difference function) is computed:
+ * - "direct": nested O(N²) loop, straight from the paper
+ * - "fft":    autocorrelation via FFT, O(N log N), same result up to float rounding
+ */
+export type DifferenceMethod = "direct" | "fft";
+
 export interface YinConfig {
   sampleRate: number;
   threshold?: number;        // Absolute threshold recommendation = 0.10
+  differenceMethod?: DifferenceMethod; // Default "direct"
+  minFrequency?: number;     // Lowest F0 searched in Hz (default 0 = longest lag the frame allows)
+  maxFrequency?: number;     // Highest F0 reported in Hz (default 0 = no limit)
+}
+
+/**
+ * Smallest frame that can resolve `minFrequency`: YIN integrates over half
+ * the frame, so the half must hold the longest lag plus the interpolation
+ * neighbours.
+ */
+export function requiredFrameSize(minFrequency: number, sampleRate: number): number {
+  return 2 * (Math.ceil(sampleRate / minFrequency) + 2);
 }
 
 export class Yin {
   private threshold: number;
   private sampleRate: number;
+  private differenceMethod: DifferenceMethod;
+  private minFrequency: number;
+  private maxFrequency: number;
 
   constructor(config: YinConfig) {
     this.sampleRate = config.sampleRate;
     this.threshold = config.threshold ?? 0.10;
+    this.differenceMethod = config.differenceMethod ?? "direct";
+    this.minFrequency = config.minFrequency ?? 0;
+    this.maxFrequency = config.maxFrequency ?? 0;
+    if (this.minFrequency < 0 || this.maxFrequency < 0 ||
+        (this.minFrequency > 0 && this.maxFrequency > 0 && this.maxFrequency <= this.minFrequency)) {
+      throw new Error(`Invalid YIN frequency range: ${this.minFrequency}–${this.maxFrequency} Hz`);
+    }
   }
 
   /**
@@ -25,35 +57,28 @@ export class Yin {
    * @param buffer Input audio frame (Float32Array, mono)
    */
   detectPitch(buffer: Float32Array): YinResult {
-    const bufferSize = buffer.length;
-    const halfBufferSize = Math.floor(bufferSize / 2);
-    const yinBuffer = new Float32Array(halfBufferSize);
-
-    // Step 1: Difference function
-    for (let tau = 1; tau < halfBufferSize; tau++) {
-      let sum = 0;
-      for (let i = 0; i < halfBufferSize; i++) {
-        const delta = buffer[i] - buffer[i + tau];
-        sum += delta * delta;
-      }
-      yinBuffer[tau] = sum;
-    }
+    // Steps 1–2: Difference function → CMND
+    const yinBuffer = this.cumulativeMeanNormalizedDifference(buffer);
+    const halfBufferSize = yinBuffer.length;
 
-    // Step 2: Cumulative mean normalized difference
-    yinBuffer[0] = 1;
-    let runningSum = 0;
-    for (let tau = 1; tau < halfBufferSize; tau++) {
-      runningSum += yinBuffer[tau];
-      yinBuffer[tau] *= tau / runningSum;
-    }
-
-    // Step 3: Absolute threshold check
+    // Step 3: Absolute threshold check, within the lags of the frequency range
+    const minTau = this.maxFrequency > 0
+      ? Math.max(2, Math.floor(this.sampleRate / this.maxFrequency))
+      : 2;
+    const maxTau = this.minFrequency > 0
+      ? Math.min(halfBufferSize - 1, Math.ceil(this.sampleRate / this.minFrequency))
+      : halfBufferSize - 1;
     let tauEstimate = -1;
-    for (let tau = 2; tau < halfBufferSize; tau++) {
+    for (let tau = minTau; tau <= maxTau; tau++) {
       if (yinBuffer[tau] < this.threshold) {
         while (tau + 1 < halfBufferSize && yinBuffer[tau + 1] < yinBuffer[tau]) {
           tau++;
         }
+        // Rising tail of a dip below minTau (F0 above maxFrequency): skip the dip
+        if (tau === minTau && minTau > 2 && yinBuffer[tau - 1] < yinBuffer[tau]) {
+          while (tau + 1 <= maxTau && yinBuffer[tau + 1] < this.threshold) tau++;
+          continue;
+        }
         tauEstimate = tau;
         break;
       }
@@ -61,7 +86,9 @@ export class Yin {
 
     // If no tau found, return null pitch
     if (tauEstimate === -1) {
-      return { pitch: null, probability: 0 };
+      let aperiodicity = 1;
+      for (let tau = minTau; tau <= maxTau; tau++) aperiodicity = Math.min(aperiodicity, yinBuffer[tau]);
+      return { pitch: null, probability: 0, aperiodicity };
     }
 
     // Step 4: Parabolic interpolation
@@ -69,12 +96,109 @@ export class Yin {
 
     // Step 5: Convert lag -> frequency
     const pitch = this.sampleRate / betterTau;
-    const probability = 1 - yinBuffer[tauEstimate]; // YIN confidence measure
+    const aperiodicity = yinBuffer[tauEstimate];
+    const probability = 1 - aperiodicity; // YIN confidence measure
+
+    // Reject estimates outside the range (interpolation or the descent can step past a bound)
+    if ((this.minFrequency > 0 && pitch < this.minFrequency) ||
+        (this.maxFrequency > 0 && pitch > this.maxFrequency)) {
+      return { pitch: null, probability: 0, aperiodicity };
+    }
+
+    return { pitch, probability, aperiodicity };
+  }
+
+  /**
+   * Steps 1–2 of YIN: difference function, then cumulative mean normalized
+   * difference d'(τ) with d'(0) = 1. Length is half the frame.
+   * Shared with PYin, which reads every dip instead of the first one.
+   */
+  cumulativeMeanNormalizedDifference(buffer: Float32Array): Float32Array {
+    const halfBufferSize = Math.floor(buffer.length / 2);
+    const yinBuffer = new Float32Array(halfBufferSize);
+
+    // Step 1: Difference function
+    if (this.differenceMethod === "fft") {
+      this.differenceFFT(buffer, yinBuffer);
+    } else {
+      this.differenceDirect(buffer, yinBuffer);
+    }
 
-    return { pitch, probability };
+    // Step 2: Cumulative mean normalized difference
+    yinBuffer[0] = 1;
+    let runningSum = 0;
+    for (let tau = 1; tau < halfBufferSize; tau++) {
+      runningSum += yinBuffer[tau];
+      yinBuffer[tau] *= tau / runningSum;
+    }
+    return yinBuffer;
   }
 
-  private parabolicInterpolation(buffer: Float32Array, tau: number): number {
+  /**
+   * d(τ) = Σ (x[i] - x[i+τ])², summed over the first half of the frame
+   */
+  private differenceDirect(buffer: Float32Array, yinBuffer: Float32Array): void {
+    const halfBufferSize = yinBuffer.length;
+    for (let tau = 1; tau < halfBufferSize; tau++) {
+      let sum = 0;
+      for (let i = 0; i < halfBufferSize; i++) {
+        const delta = buffer[i] - buffer[i + tau];
+        sum += delta * delta;
+      }
+      yinBuffer[tau] = sum;
+    }
+  }
+
+  /**
+   * Same d(τ), expanded as energy terms minus twice the cross-correlation:
+   *   d(τ) = Σ x[i]² + Σ x[i+τ]² - 2 Σ x[i]·x[i+τ]
+   * The energies come from a running sum of squares, the correlation from
+   * one forward/inverse FFT pair (IFFT(conj(FFT(window)) · FFT(frame))).
+   */
+  private differenceFFT(buffer: Float32Array, yinBuffer: Float32Array): void {
+    const halfBufferSize = yinBuffer.length;
+    if (halfBufferSize < 2) return;
+    const size = nextPowerOfTwo(buffer.length);
+
+    // Spectrum of the whole frame
+    const frameRe = new Float64Array(size);
+    const frameIm = new Float64Array(size);
+    for (let i = 0; i < buffer.length; i++) frameRe[i] = buffer[i];
+    fft(frameRe, frameIm);
+
+    // Spectrum of the integration window (first half only, zero-padded)
+    const winRe = new Float64Array(size);
+    const winIm = new Float64Array(size);
+    for (let i = 0; i < halfBufferSize; i++) winRe[i] = buffer[i];
+    fft(winRe, winIm);
+
+    // Cross-spectrum conj(W) · F, then back to the lag domain
+    for (let k = 0; k < size; k++) {
+      const re = winRe[k] * frameRe[k] + winIm[k] * frameIm[k];
+      const im = winRe[k] * frameIm[k] - winIm[k] * frameRe[k];
+      frameRe[k] = re;
+      frameIm[k] = im;
+    }
+    fft(frameRe, frameIm, true);
+
+    // Energy of the fixed window and of the sliding window starting at τ
+    const cumulativeSquares = new Float64Array(buffer.length + 1);
+    for (let i = 0; i < buffer.length; i++) {
+      cumulativeSquares[i + 1] = cumulativeSquares[i] + buffer[i] * buffer[i];
+    }
+    const energy0 = cumulativeSquares[halfBufferSize];
+
+    for (let tau = 1; tau < halfBufferSize; tau++) {
+      const energyTau = cumulativeSquares[tau + halfBufferSize] - cumulativeSquares[tau];
+      // Clamp tiny negative values caused by rounding on near-silent frames
+      yinBuffer[tau] = Math.max(0, energy0 + energyTau - 2 * frameRe[tau]);
+    }
+  }
+
+  /**
+   * Sub-sample lag from the parabola through (τ-1, τ, τ+1)
+   */
+  parabolicInterpolation(buffer: Float32Array, tau: number): number {
     const x0 = tau < 1 ? tau : tau - 1;
     const x2 = tau + 1 < buffer.length ? tau + 1 : tau;
     if (x0 === tau || x2 === tau) return tau;
@@ -1,5 +1,35 @@
-import { PitchEngine } from "../core/pitch-engine.js";
+import { DEFAULT_TOLERANCE_CENTS, PitchEngine } from "../core/pitch-engine.js";
 import { defaultDSPConfig } from "../core/dsp/dsp-config.js";
+import { FrameAccumulator, iterateFrames, resolveHopSize } from "../core/dsp/framing.js";
+import { Resampler, resampleToAnalysisRate, resolveAnalysisRate } from "../core/dsp/resample.js";
+import { resolveTuning } from "../core/note-utils.js";
+import { NoteSegmenter } from "../core/segmentation.js";
+import { computeIntonationStats } from "../core/intonation.js";
+import { parseAttackSkip, resolveAnalysisRegion } from "../core/dsp/attack.js";
+import type { RegionOptions } from "../core/dsp/attack.js";
+import { estimateNoiseProfile } from "../core/dsp/denoise.js";
+import type { NoiseProfile } from "../core/dsp/denoise.js";
+import { FilterBank, resolveHumFilter } from "../core/dsp/filters.js";
+import { humFrequencyFor } from "../core/dsp/hum.js";
+import type { NoteEvent } from "../core/segmentation.js";
+import { encodeMidi } from "../core/midi.js";
+import { decodeWav, mixToMono } from "../core/wav.js";
+import { applyInstrumentPreset, fitFrameSize, INSTRUMENT_NAMES, INSTRUMENT_PRESETS } from "../core/instruments.js";
+import type { DSPConfig } from "../core/dsp/dsp-config.js";
+import type { PitchResult } from "../core/pitch-engine.js";
+import { RECORDER_PROCESSOR, TUNER_PROCESSOR } from "./worklet-messages.js";
+import { TunerDisplay, toReading } from "./tuner-display.js";
+import { AudioView } from "./audio-view.js";
+import type { TimeRegion } from "./audio-view.js";
+import { DSPSettingsPanel } from "./dsp-settings.js";
+import type {
+  RecorderMessage,
+  RecorderProcessorOptions,
+  TunerCommand,
+  TunerMessage,
+  TunerProcessorOptions
+} from "./worklet-messages.js";
+import type { TuningConfig, TemperamentName } from "../core/note-utils.js";
 
 // ---------- DOM refs ----------
 const fileInput = document.getElementById("fileInput") as HTMLInputElement;
@@ -9,6 +39,8 @@ const analyzeBtn = document.getElementById("analyzeButton") as HTMLButtonElement
 const expectedNoteInput = document.getElementById("expectedNote") as HTMLInputElement;
 const downloadBtn = document.getElementById("downloadButton") as HTMLButtonElement;
 const saveWavBtn = document.getElementById("saveWavButton") as HTMLButtonElement;
+const downloadMidiBtn = document.getElementById("downloadMidiButton") as HTMLButtonElement | null;
+const midiBendCheckbox = document.getElementById("midiBendCheckbox") as HTMLInputElement | null;
 
 const countdownLabel = document.getElementById("countdown") as HTMLElement | null;
 const pitchOut = document.getElementById("pitch")!;
@@ -16,6 +48,17 @@ const noteOut = document.getElementById("note")!;
 const confOut = document.getElementById("confidence")!;
 const devOut = document.getElementById("deviation")!;
 const sourceLabel = document.getElementById("sourceLabel")!;
+const notesList = document.getElementById("notesList") as HTMLElement | null;
+
+const referenceInput = document.getElementById("referenceInput") as HTMLInputElement | null;
+const temperamentSelect = document.getElementById("temperamentSelect") as HTMLSelectElement | null;
+const tonicSelect = document.getElementById("tonicSelect") as HTMLSelectElement | null;
+const customCentsInput = document.getElementById("customCentsInput") as HTMLInputElement | null;
+const instrumentSelect = document.getElementById("instrumentSelect") as HTMLSelectElement | null;
+const regionStartInput = document.getElementById("regionStartInput") as HTMLInputElement | null;
+const regionEndInput = document.getElementById("regionEndInput") as HTMLInputElement | null;
+const attackSkipInput = document.getElementById("attackSkipInput") as HTMLInputElement | null;
+const attackAutoCheckbox = document.getElementById("attackAutoCheckbox") as HTMLInputElement | null;
 
 // Tab UI wiring (matches ids in index.html)
 const modeFileTab = document.getElementById("tab-file") as HTMLButtonElement | null;
@@ -30,6 +73,33 @@ const playRecordBtn = document.getElementById("playRecordButton") as HTMLButtonE
 
 const liveStartBtn = document.getElementById("liveStartButton") as HTMLButtonElement | null;
 const liveStopBtn = document.getElementById("liveStopButton") as HTMLButtonElement | null;
+const needleCanvas = document.getElementById("needleCanvas") as HTMLCanvasElement | null;
+const strobeCanvas = document.getElementById("strobeCanvas") as HTMLCanvasElement | null;
+const historyCanvas = document.getElementById("historyCanvas") as HTMLCanvasElement | null;
+
+const fileWaveformCanvas = document.getElementById("fileWaveformCanvas") as HTMLCanvasElement | null;
+const fileSpectrogramCanvas = document.getElementById("fileSpectrogramCanvas") as HTMLCanvasElement | null;
+const fileRegionLabel = document.getElementById("fileRegionLabel") as HTMLElement | null;
+const fileClearRegionBtn = document.getElementById("fileClearRegionButton") as HTMLButtonElement | null;
+const recordWaveformCanvas = document.getElementById("recordWaveformCanvas") as HTMLCanvasElement | null;
+const recordSpectrogramCanvas = document.getElementById("recordSpectrogramCanvas") as HTMLCanvasElement | null;
+const recordRegionLabel = document.getElementById("recordRegionLabel") as HTMLElement | null;
+const recordClearRegionBtn = document.getElementById("recordClearRegionButton") as HTMLButtonElement | null;
+const fileNoiseBtn = document.getElementById("fileNoiseButton") as HTMLButtonElement | null;
+const fileNoiseLabel = document.getElementById("fileNoiseLabel") as HTMLElement | null;
+const recordNoiseBtn = document.getElementById("recordNoiseButton") as HTMLButtonElement | null;
+const recordNoiseLabel = document.getElementById("recordNoiseLabel") as HTMLElement | null;
+const liveLearnNoiseBtn = document.getElementById("liveLearnNoiseButton") as HTMLButtonElement | null;
+const liveNoiseLabel = document.getElementById("liveNoiseLabel") as HTMLElement | null;
+
+const dspFieldsEl = document.getElementById("dspSettingsFields") as HTMLElement | null;
+const dspPresetSelect = document.getElementById("dspPresetSelect") as HTMLSelectElement | null;
+const dspImportInput = document.getElementById("dspImportInput") as HTMLInputElement | null;
+const dspImportBtn = document.getElementById("dspImportButton") as HTMLButtonElement | null;
+const dspExportBtn = document.getElementById("dspExportButton") as HTMLButtonElement | null;
+const dspResetBtn = document.getElementById("dspResetButton") as HTMLButtonElement | null;
+const dspStatus = document.getElementById("dspSettingsStatus") as HTMLElement | null;
+const dspResponseCanvas = document.getElementById("dspResponse") as HTMLCanvasElement | null;
 
 const inputDeviceSelect = document.getElementById("inputDeviceSelect") as HTMLSelectElement | null;
 const outputDeviceSelect = document.getElementById("outputDeviceSelect") as HTMLSelectElement | null;
@@ -46,13 +116,13 @@ let recordedSamples: Float32Array[] = []; // chunks of mono PCM
 let recordedLength = 0;
 const MAX_RECORD_SECONDS = 5;
 
-// Recording graph nodes for mic
-let currentProcessor: ScriptProcessorNode | null = null;
+// Recording graph nodes for mic (AudioWorkletNode, or ScriptProcessorNode fallback)
+let currentProcessor: AudioNode | null = null;
 let currentSourceNode: MediaStreamAudioSourceNode | null = null;
 
 // Live tuner stream
 let liveStream: MediaStream | null = null;
-let liveProcessor: ScriptProcessorNode | null = null;
+let liveProcessor: AudioNode | null = null;
 let liveSourceNode: MediaStreamAudioSourceNode | null = null;
 
 // Device selections
@@ -63,8 +133,43 @@ let deviceAccessRequested = false;
 // Countdown timer
 let countdownIntervalId: number | null = null;
 
-// Live tuner engine
+// Live tuner engine (ScriptProcessor fallback only; the worklet runs its own)
 let liveEngine: PitchEngine | null = null;
+// Config the running live tuner was built with (framing changes need a restart)
+let liveConfig: DSPConfig | null = null;
+let liveAnalysisRate = 0;
+
+// Needle / strobe / history canvases in the live panel
+const tunerDisplay = new TunerDisplay({ needle: needleCanvas, strobe: strobeCanvas, history: historyCanvas });
+let liveTuning: TuningConfig = {};
+
+// Waveform / spectrogram views with region selection (file and record panels)
+const fileView = new AudioView(
+  { waveform: fileWaveformCanvas, spectrogram: fileSpectrogramCanvas },
+  { onSelect: (region) => updateRegionLabel("file", region) }
+);
+const recordView = new AudioView(
+  { waveform: recordWaveformCanvas, spectrogram: recordSpectrogramCanvas },
+  { onSelect: (region) => updateRegionLabel("record", region) }
+);
+
+// Advanced DSP settings (persisted); edits reach a running live tuner immediately
+const dspSettings = new DSPSettingsPanel(
+  {
+    fields: dspFieldsEl,
+    presetSelect: dspPresetSelect,
+    importInput: dspImportInput,
+    importButton: dspImportBtn,
+    exportButton: dspExportBtn,
+    resetButton: dspResetBtn,
+    status: dspStatus,
+    response: dspResponseCanvas
+  },
+  { onChange: () => applyLiveConfig() }
+);
+
+// AudioWorklet module load for the shared context (false → ScriptProcessor fallback)
+let workletReady: Promise<boolean> | null = null;
 
 // Source-specific buffers
 let uploadBuffer: Float32Array | null = null;
@@ -99,6 +204,20 @@ const resultsByMode: Record<Mode, ResultDisplay> = {
   live: blankResult()
 };
 
+// Noise profiles picked from a selection (file / record modes)
+const noiseByMode: Record<Mode, { profile: NoiseProfile; region: TimeRegion } | null> = {
+  file: null,
+  record: null,
+  live: null
+};
+
+// Detected notes from the last analysis (per mode)
+const notesByMode: Record<Mode, NoteEvent[]> = {
+  file: [],
+  record: [],
+  live: []
+};
+
 // Track which source is active
 type SourceKind = "none" | "recording" | "upload" | "live";
 let currentSource: SourceKind = "none";
@@ -139,6 +258,51 @@ function clearError() {
   updateResultsForMode(activeMode, { ...cur, dev: "---" });
 }
 
+// Read A4 reference + temperament from the tuning controls (throws on invalid input)
+function getTuning(): TuningConfig {
+  const reference = referenceInput ? parseFloat(referenceInput.value) : NaN;
+  const choice = temperamentSelect?.value ?? "equal";
+  const temperament: TuningConfig["temperament"] = choice === "custom"
+    ? (customCentsInput?.value ?? "").split(",").map(c => parseFloat(c))
+    : choice as TemperamentName;
+  const tuning: TuningConfig = {
+    referenceFrequency: isFinite(reference) ? reference : undefined,
+    temperament,
+    tonic: tonicSelect?.value ?? "C"
+  };
+  resolveTuning(tuning);
+  return tuning;
+}
+
+// DSP config for an input rate: advanced settings, instrument F0 range, frame long enough for its lowest note
+function getAnalysisConfig(sampleRate: number): DSPConfig {
+  const instrument = instrumentSelect?.value ?? "";
+  const base = dspSettings.config;
+  const config = instrument ? applyInstrumentPreset(base, instrument) : base;
+  return fitFrameSize(config, sampleRate);
+}
+
+function getExpectedNote(): string | undefined {
+  const expectedRaw = expectedNoteInput.value.trim();
+  return expectedRaw.length ? expectedRaw : undefined;
+}
+
+// Load the worklet processors once per context; resolves false when AudioWorklet
+// is missing (old browsers, non-secure origins) or the module fails to load
+function loadWorklet(ctx: AudioContext): Promise<boolean> {
+  if (!workletReady) {
+    workletReady = ctx.audioWorklet && typeof AudioWorkletNode !== "undefined"
+      ? ctx.audioWorklet
+          .addModule(new URL("./worklet.js", import.meta.url).href)
+          .then(() => true, (err) => {
+            console.warn("AudioWorklet unavailable, using ScriptProcessor:", err);
+            return false;
+          })
+      : Promise.resolve(false);
+  }
+  return workletReady;
+}
+
 function concatFloat32(chunks: Float32Array[], totalLen: number): Float32Array {
   const out = new Float32Array(totalLen);
   let off = 0;
@@ -150,27 +314,27 @@ function concatFloat32(chunks: Float32Array[], totalLen: number): Float32Array {
 }
 
 function toMono(buffer: AudioBuffer): Float32Array {
-  if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
-
-  const ch0 = buffer.getChannelData(0);
-  const ch1 = buffer.getChannelData(1);
-  const N = Math.min(ch0.length, ch1.length);
-  const mono = new Float32Array(N);
-  for (let i = 0; i < N; i++) {
-    mono[i] = 0.5 * (ch0[i] + ch1[i]);
+  const channels: Float32Array[] = [];
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) {
+    channels.push(buffer.getChannelData(ch));
   }
-  return mono;
+  return mixToMono(channels);
 }
 
-// Decode a WAV file using Web Audio API
+// Decode a WAV file using Web Audio API; fall back to the built-in core reader
+// for files the browser can't decode (e.g. 24-bit/64-bit float/extensible WAVs)
 async function decodeWavFile(file: File): Promise<{ pcm: Float32Array; sampleRate: number }> {
   const arrayBuf = await file.arrayBuffer();
   const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
-  const audioBuf = await ctx.decodeAudioData(arrayBuf.slice(0));
-  const mono = toMono(audioBuf);
-  const sr = audioBuf.sampleRate;
-  ctx.close();
-  return { pcm: mono, sampleRate: sr };
+  try {
+    const audioBuf = await ctx.decodeAudioData(arrayBuf.slice(0));
+    return { pcm: toMono(audioBuf), sampleRate: audioBuf.sampleRate };
+  } catch (_) {
+    const decoded = decodeWav(arrayBuf);
+    return { pcm: mixToMono(decoded.channelData), sampleRate: decoded.sampleRate };
+  } finally {
+    ctx.close();
+  }
 }
 
 // WAV encoding helpers for "Save recording as WAV"
@@ -300,6 +464,7 @@ function disableDownloadForMode(mode: Mode) {
 
 function resetResultsForMode(mode: Mode) {
   updateResultsForMode(mode, blankResult());
+  updateNotesForMode(mode, []);
   disableDownloadForMode(mode);
 }
 
@@ -313,6 +478,124 @@ function updateResultsForMode(mode: Mode, result: ResultDisplay) {
   }
 }
 
+function viewForMode(mode: Mode): AudioView | null {
+  return mode === "file" ? fileView : mode === "record" ? recordView : null;
+}
+
+/** Start/end from the region inputs and the attack skip setting (blank: the region's default) */
+function getRegionOptions(): RegionOptions {
+  const options: RegionOptions = {};
+  for (const [key, input, name] of [["start", regionStartInput, "Start"], ["end", regionEndInput, "End"]] as const) {
+    const text = input?.value.trim() ?? "";
+    if (!text) continue;
+    const seconds = Number(text);
+    if (!Number.isFinite(seconds) || seconds < 0) {
+      throw new Error(`${name} must be a time in seconds (got "${text}").`);
+    }
+    options[key] = seconds;
+  }
+  if (attackAutoCheckbox?.checked) {
+    options.attackSkip = "auto";
+  } else {
+    const skip = parseAttackSkip(attackSkipInput?.value ?? "");
+    if (skip === null && attackSkipInput?.value.trim()) {
+      throw new Error(`Attack skip must be a number of seconds (got "${attackSkipInput.value}").`);
+    }
+    if (skip !== null) options.attackSkip = skip;
+  }
+  return options;
+}
+
+/** Mirror a view's selection into the Start/End inputs */
+function syncRegionInputs(region: TimeRegion | null) {
+  if (regionStartInput) regionStartInput.value = region ? region.start.toFixed(2) : "";
+  if (regionEndInput) regionEndInput.value = region ? region.end.toFixed(2) : "";
+}
+
+function updateRegionLabel(mode: Mode, region: TimeRegion | null) {
+  if (mode === activeMode) syncRegionInputs(region);
+  const label = mode === "file" ? fileRegionLabel : mode === "record" ? recordRegionLabel : null;
+  const clearBtn = mode === "file" ? fileClearRegionBtn : mode === "record" ? recordClearRegionBtn : null;
+  if (label) {
+    label.textContent = region
+      ? `${region.start.toFixed(2)}–${region.end.toFixed(2)} s (${(region.end - region.start).toFixed(2)} s)`
+      : "Whole take — drag on the view to select";
+  }
+  if (clearBtn) clearBtn.disabled = !region;
+  const noiseBtn = mode === "file" ? fileNoiseBtn : mode === "record" ? recordNoiseBtn : null;
+  if (noiseBtn) noiseBtn.disabled = !region;
+}
+
+function setNoiseForMode(mode: Mode, noise: { profile: NoiseProfile; region: TimeRegion } | null) {
+  noiseByMode[mode] = noise;
+  const label = mode === "file" ? fileNoiseLabel : mode === "record" ? recordNoiseLabel : null;
+  if (label) {
+    label.textContent = noise
+      ? `${noise.region.start.toFixed(2)}–${noise.region.end.toFixed(2)} s (RMS ${noise.profile.rms.toFixed(4)})`
+      : "none";
+  }
+}
+
+// Learn the noise spectrum from the view's selection, then clear it so the
+// next selection picks the region to analyze. The selection goes through the
+// same resampling and filters as analyzeOnce, like the frames it will denoise.
+function useSelectionAsNoise(mode: Mode) {
+  const view = viewForMode(mode);
+  const region = view?.getSelection() ?? null;
+  const source = mode === "file" ? uploadBuffer : recordBuffer;
+  const sourceRate = mode === "file" ? uploadSampleRate : recordSampleRate;
+  if (!view || !region || !source || !sourceRate) return;
+  try {
+    const { audio, sampleRate } = resampleToAnalysisRate(source, sourceRate, dspSettings.config);
+    const { config } = resolveHumFilter(getAnalysisConfig(sampleRate), audio, sampleRate);
+    const noise = audio.subarray(Math.floor(region.start * sampleRate), Math.ceil(region.end * sampleRate));
+    const filtered = new FilterBank(sampleRate, config).processFrame(noise);
+    setNoiseForMode(mode, { profile: estimateNoiseProfile(filtered, sampleRate, config.frameSize), region });
+    view.clearSelection();
+  } catch (e: any) {
+    setError(e?.message || String(e));
+  }
+}
+
+// Live input learns a profile at start when noise reduction or the adaptive gate can use it
+function wantsLiveNoiseProfile(config: DSPConfig): boolean {
+  const uses = (config.noiseReduction ?? "off") !== "off" || (config.enableNoiseGate && !!config.adaptiveNoiseGate);
+  return uses && (config.noiseProfileMs ?? 0) > 0;
+}
+
+function showLiveNoiseLearning(config: DSPConfig) {
+  if (liveNoiseLabel) liveNoiseLabel.textContent = `learning from the next ${config.noiseProfileMs ?? 500} ms — stay quiet`;
+}
+
+function showLiveNoiseProfile(rms: number) {
+  if (liveNoiseLabel) liveNoiseLabel.textContent = `learned (RMS ${rms.toFixed(4)})`;
+}
+
+function updateNotesForMode(mode: Mode, notes: NoteEvent[]) {
+  notesByMode[mode] = notes;
+  if (mode === getVisibleMode()) renderNotes(notes);
+}
+
+function renderNotes(notes: NoteEvent[]) {
+  if (downloadMidiBtn) downloadMidiBtn.disabled = notes.length === 0;
+  if (!notesList) return;
+  notesList.innerHTML = "";
+  if (notes.length === 0) {
+    notesList.textContent = "---";
+    return;
+  }
+  const ol = document.createElement("ol");
+  for (const n of notes) {
+    const li = document.createElement("li");
+    const cents = `${n.cents >= 0 ? "+" : ""}${n.cents.toFixed(1)}`;
+    li.textContent =
+      `${n.note} (${n.frequency.toFixed(2)} Hz) ${n.onset.toFixed(2)}–${n.offset.toFixed(2)} s, ` +
+      `${cents} cents, stability ${(n.stability * 100).toFixed(0)}%`;
+    ol.appendChild(li);
+  }
+  notesList.appendChild(ol);
+}
+
 function getVisibleMode(): Mode {
   return activeMode;
 }
@@ -323,6 +606,7 @@ function applyResultsForActiveMode() {
   noteOut.textContent = res.note;
   confOut.textContent = res.conf;
   devOut.textContent = res.dev;
+  renderNotes(notesByMode[activeMode]);
   downloadBtn.disabled = !lastResultJson[activeMode];
 }
 
@@ -394,6 +678,10 @@ function setActiveMode(mode: Mode) {
   syncPendingToMode();
   applyResultsForActiveMode();
   refreshPlaybackButtons();
+  // Canvases in a hidden panel have no size; draw once it is shown
+  const view = viewForMode(mode);
+  view?.draw();
+  syncRegionInputs(view?.getSelection() ?? null);
 }
 
 // ---------- Devices ----------
@@ -525,36 +813,56 @@ async function startRecording() {
     const source = audioContext.createMediaStreamSource(micStream);
 
     const frameSize = defaultDSPConfig.frameSize ?? 2048;
-    const sp = (audioContext as any).createScriptProcessor
-      ? (audioContext as any).createScriptProcessor(frameSize, 1, 1)
-      : null;
+    let processor: AudioNode;
 
-    if (!sp) {
-      setError("Recording not supported in this browser (no ScriptProcessor).");
-      return;
+    if (await loadWorklet(audioContext)) {
+      const recorderOptions: RecorderProcessorOptions = { chunkSize: frameSize };
+      const node = new AudioWorkletNode(audioContext, RECORDER_PROCESSOR, {
+        outputChannelCount: [1],
+        processorOptions: recorderOptions
+      });
+      node.port.onmessage = (ev: MessageEvent<RecorderMessage>) => {
+        if (!recording) return;
+        recordedSamples.push(ev.data.samples);
+        recordedLength += ev.data.samples.length;
+      };
+      processor = node;
+    } else {
+      const sp = (audioContext as any).createScriptProcessor
+        ? (audioContext as any).createScriptProcessor(frameSize, 1, 1)
+        : null;
+
+      if (!sp) {
+        setError("Recording not supported in this browser (no AudioWorklet or ScriptProcessor).");
+        return;
+      }
+
+      sp.onaudioprocess = (ev: AudioProcessingEvent) => {
+        if (!recording) return;
+        const input = ev.inputBuffer;
+        const mono = toMono(input);
+
+        recordedSamples.push(new Float32Array(mono));
+        recordedLength += mono.length;
+      };
+      processor = sp;
     }
 
     recordedSamples = [];
     recordedLength = 0;
     recording = true;
-    currentProcessor = sp;
+    currentProcessor = processor;
     currentSourceNode = source;
 
-    sp.onaudioprocess = (ev: AudioProcessingEvent) => {
-      if (!recording) return;
-      const input = ev.inputBuffer;
-      const mono = toMono(input);
-
-      recordedSamples.push(new Float32Array(mono));
-      recordedLength += mono.length;
-    };
-
-    source.connect(sp);
-    sp.connect(audioContext.destination);
+    // Output is silent; connecting it keeps the node processing
+    source.connect(processor);
+    processor.connect(audioContext.destination);
 
     // New recording: clear only recording-related state
     recordBuffer = null;
     recordSampleRate = null;
+    recordView.setAudio(null, 0);
+    setNoiseForMode("record", null);
     lastRecordedPCM = null;
     lastRecordedSampleRate = null;
     saveWavBtn.disabled = true;
@@ -594,6 +902,7 @@ function stopRecordingInternal() {
     const pcm = concatFloat32(recordedSamples, recordedLength);
     recordBuffer = pcm;
     recordSampleRate = audioContext.sampleRate;
+    recordView.setAudio(recordBuffer, recordSampleRate);
 
     lastRecordedPCM = pcm;
     lastRecordedSampleRate = recordSampleRate;
@@ -654,57 +963,117 @@ async function startLiveMode() {
     liveStream = await navigator.mediaDevices.getUserMedia({ audio: audioConstraint, video: false });
     const source = audioContext.createMediaStreamSource(liveStream);
 
-    const frameSize = defaultDSPConfig.frameSize ?? 2048;
-    const sp = (audioContext as any).createScriptProcessor
-      ? (audioContext as any).createScriptProcessor(frameSize, 1, 1)
-      : null;
+    const tuning = getTuning();
+    liveTuning = tuning;
+    tunerDisplay.reset();
+    // Input is resampled to the analysis rate (if configured) and re-framed with the configured hop
+    const analysisRate = resolveAnalysisRate(audioContext.sampleRate, dspSettings.config);
+    const config = getAnalysisConfig(analysisRate);
+    const learnNoise = wantsLiveNoiseProfile(config);
+    if (learnNoise) showLiveNoiseLearning(config);
+    else if (liveNoiseLabel) liveNoiseLabel.textContent = "none";
+    let processor: AudioNode;
+
+    if (await loadWorklet(audioContext)) {
+      // Pitch tracking runs on the audio thread; results come back over the port
+      const tunerOptions: TunerProcessorOptions = {
+        config,
+        tuning,
+        expectedNote: getExpectedNote(),
+        learnNoise
+      };
+      const node = new AudioWorkletNode(audioContext, TUNER_PROCESSOR, {
+        outputChannelCount: [1],
+        processorOptions: tunerOptions
+      });
+      node.port.onmessage = (ev: MessageEvent<TunerMessage>) => {
+        const msg = ev.data;
+        if (msg.type === "result") {
+          showLiveResult(msg.result, msg.time);
+        } else if (msg.type === "noiseProfile") {
+          showLiveNoiseProfile(msg.rms);
+        } else {
+          setError(`Live tuner error: ${msg.message}`);
+        }
+      };
+      processor = node;
+    } else {
+      const blockSize = defaultDSPConfig.frameSize ?? 2048;
+      const sp = (audioContext as any).createScriptProcessor
+        ? (audioContext as any).createScriptProcessor(blockSize, 1, 1)
+        : null;
+
+      if (!sp) {
+        setError("Live tuner not supported in this browser (no AudioWorklet or ScriptProcessor).");
+        return;
+      }
 
-    if (!sp) {
-      setError("Live tuner not supported in this browser (no ScriptProcessor).");
-      return;
+      const resampler =
+        analysisRate !== audioContext.sampleRate ? new Resampler(audioContext.sampleRate, analysisRate) : null;
+      const framer = new FrameAccumulator(config.frameSize, resolveHopSize(config), analysisRate);
+      liveEngine = new PitchEngine(analysisRate, config);
+      if (learnNoise) liveEngine.learnNoiseProfile();
+
+      sp.onaudioprocess = (ev: AudioProcessingEvent) => {
+        const input = ev.inputBuffer;
+        const mono = toMono(input);
+        const chunk = resampler ? resampler.process(mono) : mono;
+        const expectedOpt = getExpectedNote();
+
+        for (const { time, hop, frame } of framer.push(chunk)) {
+          const learning = liveEngine!.learningNoise;
+          const res = liveEngine!.processFrame(frame, {
+            expectedNote: expectedOpt,
+            smoothing: true,
+            hop,
+            tuning
+          });
+          showLiveResult(res, time);
+          if (learning && !liveEngine!.learningNoise) showLiveNoiseProfile(liveEngine!.noiseProfile?.rms ?? 0);
+        }
+      };
+      processor = sp;
     }
 
-    liveEngine = new PitchEngine(audioContext.sampleRate, defaultDSPConfig);
-    liveProcessor = sp;
+    liveProcessor = processor;
     liveSourceNode = source;
+    liveConfig = config;
+    liveAnalysisRate = analysisRate;
     currentSource = "live";
     updateSourceLabel();
 
-    sp.onaudioprocess = (ev: AudioProcessingEvent) => {
-      const input = ev.inputBuffer;
-      const mono = toMono(input);
-      const expectedRaw = expectedNoteInput.value.trim();
-      const expectedOpt = expectedRaw.length ? expectedRaw : undefined;
-      const res = liveEngine!.processFrame(mono, {
-        expectedNote: expectedOpt,
-        smoothing: true
-      });
-
-      if (res.frequency !== null && res.confidence >= 0.6) {
-        updateResultsForMode("live", {
-          pitch: `${res.frequency.toFixed(2)} Hz`,
-          note: res.note ?? "---",
-          conf: `${(res.confidence * 100).toFixed(1)}%`,
-          dev: res.deviation ?? "---"
-        });
-      }
-    };
-
-    source.connect(sp);
-    sp.connect(audioContext.destination);
+    // Output is silent; connecting it keeps the node processing
+    source.connect(processor);
+    processor.connect(audioContext.destination);
 
     if (liveStartBtn) liveStartBtn.disabled = true;
     if (liveStopBtn) liveStopBtn.disabled = false;
+    if (liveLearnNoiseBtn) liveLearnNoiseBtn.disabled = false;
+    tunerDisplay.start();
   } catch (e: any) {
     setError(`Live tuner error: ${e?.message || e}`);
   }
 }
 
+function showLiveResult(res: PitchResult, time: number) {
+  // The canvases get every frame; the text fields only voiced ones
+  tunerDisplay.push(toReading(res, time, liveTuning, getExpectedNote()));
+  if (res.voiced && res.frequency !== null) {
+    updateResultsForMode("live", {
+      pitch: `${res.frequency.toFixed(2)} Hz`,
+      note: res.note ?? "---",
+      conf: `${(res.confidence * 100).toFixed(1)}%`,
+      dev: res.deviation ?? "---"
+    });
+  }
+}
+
 function stopLiveMode() {
   if (liveProcessor) {
     try {
       liveProcessor.disconnect();
     } catch (_) {}
+    if (liveProcessor instanceof AudioWorkletNode) liveProcessor.port.onmessage = null;
   }
   if (liveSourceNode) {
     try {
@@ -719,15 +1088,45 @@ function stopLiveMode() {
   liveSourceNode = null;
   liveStream = null;
   liveEngine = null;
+  liveConfig = null;
+  tunerDisplay.stop();
 
   if (liveStartBtn) liveStartBtn.disabled = false;
   if (liveStopBtn) liveStopBtn.disabled = true;
+  if (liveLearnNoiseBtn) liveLearnNoiseBtn.disabled = true;
   if (activeMode === "live") {
     currentSource = "live";
     updateSourceLabel();
   }
 }
 
+// Settings or instrument changed while the live tuner runs: update its engine in
+// place, or restart it when the frame size, hop or analysis rate changed
+function applyLiveConfig() {
+  if (!liveProcessor || !liveConfig || !audioContext) return;
+  try {
+    const analysisRate = resolveAnalysisRate(audioContext.sampleRate, dspSettings.config);
+    const config = getAnalysisConfig(analysisRate);
+    if (
+      analysisRate !== liveAnalysisRate ||
+      config.frameSize !== liveConfig.frameSize ||
+      resolveHopSize(config) !== resolveHopSize(liveConfig)
+    ) {
+      void startLiveMode();
+      return;
+    }
+    if (liveProcessor instanceof AudioWorkletNode) {
+      const cmd: TunerCommand = { type: "config", config };
+      liveProcessor.port.postMessage(cmd);
+    } else {
+      liveEngine?.updateConfig(config);
+    }
+    liveConfig = config;
+  } catch (e: any) {
+    setError(`Live tuner error: ${e?.message || e}`);
+  }
+}
+
 function formatHz(hz: number | null): string {
   return hz && isFinite(hz) ? `${hz.toFixed(2)} Hz` : "---";
 }
@@ -740,6 +1139,7 @@ function formatConfidence(p: number): string {
 async function analyzeOnce() {
   clearError();
   disableDownloadForMode(activeMode);
+  updateNotesForMode(activeMode, []);
 
   if (!pendingBuffer || !pendingSampleRate) {
     const msg =
@@ -753,28 +1153,60 @@ async function analyzeOnce() {
   }
 
   try {
-    const engine = new PitchEngine(pendingSampleRate, defaultDSPConfig);
-    const frameSize = defaultDSPConfig.frameSize;
+    // Normalize to the analysis rate (no-op unless analysisSampleRate is set)
+    const { audio, sampleRate } = resampleToAnalysisRate(pendingBuffer, pendingSampleRate, dspSettings.config);
+    const configured = getAnalysisConfig(sampleRate);
+    // Hum "auto": measured over the whole take, so the notches apply from the first frame
+    const { config, hum } = resolveHumFilter(configured, audio, sampleRate);
+    const noise = noiseByMode[activeMode];
+    if ((config.noiseReduction ?? "off") !== "off" && !noise) {
+      setError(
+        `Noise reduction (${config.noiseReduction}) needs a noise profile: select a stretch of background noise ` +
+          "and click Use as Noise Profile."
+      );
+      return;
+    }
+    const engine = new PitchEngine(sampleRate, config, { noiseProfile: noise?.profile });
+    const frameSize = config.frameSize;
     let best: ReturnType<typeof engine.processFrame> | null = null;
 
-    const attackSkip = Math.floor(pendingSampleRate * 0.3);
-    const buf = pendingBuffer.subarray(Math.min(attackSkip, pendingBuffer.length));
+    // Start/end region (inputs mirror the view selection), attack skipped after its start
+    const view = viewForMode(activeMode);
+    const region = resolveAnalysisRegion(audio, sampleRate, getRegionOptions());
+    const buf = audio.subarray(region.start, region.end);
+    if (buf.length < frameSize) {
+      setError(
+        `Analysis region is too short after the attack skip: at least ${((frameSize / sampleRate) * 1000).toFixed(0)} ms is needed.`
+      );
+      return;
+    }
 
-    const expectedRaw = expectedNoteInput.value.trim();
-    const expectedOpt = expectedRaw.length ? expectedRaw : undefined;
+    const expectedOpt = getExpectedNote();
+    const tuning = getTuning();
 
-    for (let i = 0; i + frameSize <= buf.length; i += frameSize) {
-      const frame = buf.subarray(i, i + frameSize);
+    const hopSize = resolveHopSize(config);
+    const segmenter = new NoteSegmenter({ tuning });
+    const notes: NoteEvent[] = [];
+    const frames: { time: number; result: PitchResult }[] = [];
+    for (const { time, hop, frame } of iterateFrames(buf, frameSize, hopSize, sampleRate, region.start)) {
       const r = engine.processFrame(frame, {
         expectedNote: expectedOpt,
-        smoothing: true
+        smoothing: true,
+        hop,
+        tuning
       });
+      notes.push(...segmenter.push(r, time));
+      frames.push({ time, result: r });
 
-      if (r.frequency !== null) {
+      if (r.voiced) {
         if (!best || r.confidence > best.confidence) best = r;
       }
     }
 
+    notes.push(...segmenter.finish());
+    updateNotesForMode(activeMode, notes);
+    view?.setContour(frames.map(({ time, result }) => ({ time, frequency: result.voiced ? result.frequency : null })));
+
     if (!best) {
       setError("No stable pitch detected.");
       return;
@@ -793,10 +1225,41 @@ async function analyzeOnce() {
       confidence: best.confidence,
       expectedNote: best.expectedNote ?? null,
       deviation: best.deviation ?? null,
+      centsDeviation: best.centsDeviation ?? null,
+      inTune: best.inTune ?? null,
+      tolerance: best.inTune !== undefined ? DEFAULT_TOLERANCE_CENTS : null,
       sampleRate: pendingSampleRate,
+      analysisSampleRate: sampleRate,
+      referenceFrequency: tuning.referenceFrequency ?? null,
+      temperament: tuning.temperament ?? "equal",
+      tonic: tuning.tonic ?? "C",
+      minFrequency: config.minFrequency ?? null,
+      maxFrequency: config.maxFrequency ?? null,
+      dspConfig: configured,
+      hum:
+        (configured.humFilter ?? "off") !== "off"
+          ? {
+              mode: configured.humFilter,
+              frequency: humFrequencyFor(config.humFilter ?? "off"),
+              ...(hum ? { prominenceDb: hum.prominenceDb, levelDb: hum.levelDb } : {})
+            }
+          : null,
+      noise: {
+        reduction: config.noiseReduction ?? "off",
+        adaptiveGate: !!(config.enableNoiseGate && config.adaptiveNoiseGate),
+        profile: noise ? { ...noise.region, rms: noise.profile.rms } : null
+      },
       frameRMS: best.frameRMS ?? null,
+      region: {
+        start: region.start / sampleRate,
+        end: region.end / sampleRate,
+        attackSkip: region.attackSkip / sampleRate,
+        ...(region.attack !== undefined ? { attack: region.attack } : {})
+      },
       source: currentSource,
       mode: activeMode,
+      notes,
+      intonation: computeIntonationStats(frames, { expectedNote: expectedOpt, tuning }),
       timestamp: new Date().toISOString()
     };
     enableDownload(exportPayload);
@@ -860,6 +1323,8 @@ fileInput.addEventListener("change", async () => {
     uploadBuffer = pcm;
     uploadSampleRate = sampleRate;
     uploadPlaybackFile = file;
+    fileView.setAudio(uploadBuffer, uploadSampleRate);
+    setNoiseForMode("file", null);
     if (playUploadBtn) playUploadBtn.disabled = false;
 
     // If in file mode, this becomes active buffer
@@ -899,6 +1364,24 @@ downloadBtn.addEventListener("click", () => {
   URL.revokeObjectURL(url);
 });
 
+if (downloadMidiBtn) {
+  downloadMidiBtn.addEventListener("click", () => {
+    const notes = notesByMode[activeMode];
+    if (!notes.length) return;
+    const midi = encodeMidi(notes, { pitchBend: !!midiBendCheckbox?.checked });
+    const blob = new Blob([midi], { type: "audio/midi" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    const name = `melody_${new Date().toISOString().replace(/[:.]/g, "-")}.mid`;
+    a.download = name;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    URL.revokeObjectURL(url);
+  });
+}
+
 if (playUploadBtn) {
   playUploadBtn.addEventListener("click", async () => {
     await playUploadedFile();
@@ -911,6 +1394,60 @@ if (playRecordBtn) {
   });
 }
 
+if (fileClearRegionBtn) {
+  fileClearRegionBtn.addEventListener("click", () => fileView.clearSelection());
+}
+
+if (recordClearRegionBtn) {
+  recordClearRegionBtn.addEventListener("click", () => recordView.clearSelection());
+}
+
+if (fileNoiseBtn) {
+  fileNoiseBtn.addEventListener("click", () => useSelectionAsNoise("file"));
+}
+
+if (recordNoiseBtn) {
+  recordNoiseBtn.addEventListener("click", () => useSelectionAsNoise("record"));
+}
+
+// Re-learn the live noise profile (keep quiet while it listens)
+if (liveLearnNoiseBtn) {
+  liveLearnNoiseBtn.addEventListener("click", () => {
+    showLiveNoiseLearning(dspSettings.config);
+    if (liveProcessor instanceof AudioWorkletNode) {
+      const cmd: TunerCommand = { type: "learnNoise" };
+      liveProcessor.port.postMessage(cmd);
+    } else {
+      liveEngine?.learnNoiseProfile();
+    }
+  });
+}
+
+// Typed start/end select the same span on the active view
+for (const input of [regionStartInput, regionEndInput]) {
+  input?.addEventListener("change", () => {
+    const view = viewForMode(activeMode);
+    if (!view) return;
+    const start = regionStartInput?.value.trim() ? Number(regionStartInput.value) : null;
+    const end = regionEndInput?.value.trim() ? Number(regionEndInput.value) : null;
+    if (start === null && end === null) {
+      view.clearSelection();
+    } else if (Number.isFinite(start ?? 0) && Number.isFinite(end ?? 0)) {
+      view.setSelection({ start: start ?? 0, end: end ?? view.duration });
+    }
+  });
+}
+
+if (attackAutoCheckbox && attackSkipInput) {
+  attackAutoCheckbox.addEventListener("change", () => {
+    attackSkipInput.disabled = attackAutoCheckbox.checked;
+  });
+}
+
+window.addEventListener("resize", () => {
+  viewForMode(activeMode)?.draw();
+});
+
 if (liveStartBtn) {
   liveStartBtn.addEventListener("click", async () => {
     await startLiveMode();
@@ -923,6 +1460,30 @@ if (liveStopBtn) {
   });
 }
 
+// The worklet tuner keeps its own copy of the expected note
+expectedNoteInput.addEventListener("input", () => {
+  if (liveProcessor instanceof AudioWorkletNode) {
+    const cmd: TunerCommand = { type: "expectedNote", expectedNote: getExpectedNote() };
+    liveProcessor.port.postMessage(cmd);
+  }
+});
+
+if (instrumentSelect) {
+  for (const name of INSTRUMENT_NAMES) {
+    const option = document.createElement("option");
+    option.value = name;
+    option.textContent = INSTRUMENT_PRESETS[name].label;
+    instrumentSelect.appendChild(option);
+  }
+  instrumentSelect.addEventListener("change", () => applyLiveConfig());
+}
+
+if (temperamentSelect && customCentsInput) {
+  temperamentSelect.addEventListener("change", () => {
+    customCentsInput.style.display = temperamentSelect.value === "custom" ? "inline-block" : "none";
+  });
+}
+
 if (inputDeviceSelect) {
   inputDeviceSelect.addEventListener("change", () => {
     selectedInputId = inputDeviceSelect.value || null;
@@ -959,6 +1520,10 @@ saveWavBtn.addEventListener("click", () => {
 });
 
 // Initial mode sync
+updateRegionLabel("file", null);
+updateRegionLabel("record", null);
+setNoiseForMode("file", null);
+setNoiseForMode("record", null);
 setActiveMode("file");
 refreshDevices().catch(() => {
   /* ignore */
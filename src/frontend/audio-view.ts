@@ -0,0 +1,398 @@
+// frontend/audio-view.ts
+// Waveform and spectrogram of an uploaded or recorded buffer, with the analyzed
+// pitch contour drawn over the spectrogram and a draggable time selection.
+
+import { fft, nextPowerOfTwo } from "../core/dsp/fft.js";
+import { prepareCanvas } from "./tuner-display.js";
+
+/** Time span in seconds from the start of the buffer */
+export interface TimeRegion {
+  start: number;
+  end: number;
+}
+
+/** One analyzed frame as drawn on the spectrogram (null frequency = gap) */
+export interface ContourSample {
+  time: number;
+  frequency: number | null;
+}
+
+export interface AudioViewOptions {
+  /** Spectrogram frequency axis, log scale (default 50–5000 Hz, capped at Nyquist) */
+  minFrequency?: number;
+  maxFrequency?: number;
+  /** STFT window length in samples, rounded up to a power of two (default 2048) */
+  fftSize?: number;
+  /** Dynamic range shown below the loudest bin (default 70 dB) */
+  rangeDb?: number;
+  /** Called when the selection changes (null = cleared) */
+  onSelect?: (region: TimeRegion | null) => void;
+}
+
+const COLORS = {
+  text: "#0f172a",
+  muted: "#94a3b8",
+  grid: "#e2e8f0",
+  wave: "#0ea5e9",
+  contour: "#f97316",
+  selection: "rgba(14, 165, 233, 0.18)",
+  selectionEdge: "#0ea5e9"
+};
+
+/** Spectrogram palette: white → sky → slate, indexed by normalized level */
+const PALETTE: [number, number, number][] = [
+  [255, 255, 255],
+  [14, 165, 233],
+  [15, 23, 42]
+];
+
+/** Drags shorter than this (CSS px) count as a click, which clears the selection */
+const MIN_DRAG_PX = 3;
+
+/**
+ * AudioView
+ * Draws into an optional waveform canvas and an optional spectrogram canvas that
+ * share one time axis. Dragging on either selects a region; a plain click clears it.
+ * The spectrogram and waveform envelope are computed for the canvas width and
+ * cached until the audio or the width changes.
+ */
+export class AudioView {
+  private audio: Float32Array | null = null;
+  private sampleRate = 0;
+  private contour: ContourSample[] = [];
+  private selection: TimeRegion | null = null;
+  private drag: { anchor: number; x: number } | null = null;
+
+  private peaks: { width: number; min: Float32Array; max: Float32Array } | null = null;
+  private spectrogram: { width: number; height: number; image: HTMLCanvasElement } | null = null;
+
+  private readonly minFrequency: number;
+  private readonly maxFrequency: number;
+  private readonly fftSize: number;
+  private readonly rangeDb: number;
+
+  constructor(
+    private canvases: { waveform?: HTMLCanvasElement | null; spectrogram?: HTMLCanvasElement | null },
+    private options: AudioViewOptions = {}
+  ) {
+    this.minFrequency = options.minFrequency ?? 50;
+    this.maxFrequency = options.maxFrequency ?? 5000;
+    this.fftSize = nextPowerOfTwo(options.fftSize ?? 2048);
+    this.rangeDb = options.rangeDb ?? 70;
+    for (const canvas of [canvases.waveform, canvases.spectrogram]) {
+      if (canvas) this.attachPointer(canvas);
+    }
+  }
+
+  /** Show a new buffer (null empties the view); clears the contour and selection */
+  setAudio(audio: Float32Array | null, sampleRate: number): void {
+    this.audio = audio && audio.length ? audio : null;
+    this.sampleRate = sampleRate;
+    this.contour = [];
+    this.peaks = null;
+    this.spectrogram = null;
+    this.select(null);
+  }
+
+  /** Pitch track to overlay (frame times in seconds from the buffer start) */
+  setContour(samples: ContourSample[]): void {
+    this.contour = samples;
+    this.draw();
+  }
+
+  getSelection(): TimeRegion | null {
+    return this.selection ? { ...this.selection } : null;
+  }
+
+  /** Select a region (clamped to the buffer); null or an empty span clears it */
+  setSelection(region: TimeRegion | null): void {
+    const duration = this.duration;
+    const start = region ? Math.max(0, Math.min(duration, region.start)) : 0;
+    const end = region ? Math.max(0, Math.min(duration, region.end)) : 0;
+    this.select(region && end > start ? { start, end } : null);
+  }
+
+  clearSelection(): void {
+    this.select(null);
+  }
+
+  /** Length of the loaded buffer in seconds (0 without audio) */
+  get duration(): number {
+    return this.audio && this.sampleRate > 0 ? this.audio.length / this.sampleRate : 0;
+  }
+
+  /** Redraw both canvases (call after the panel becomes visible or resizes) */
+  draw(): void {
+    this.drawWaveform();
+    this.drawSpectrogram();
+  }
+
+  private select(region: TimeRegion | null): void {
+    this.selection = region;
+    this.draw();
+    this.options.onSelect?.(this.getSelection());
+  }
+
+  private attachPointer(canvas: HTMLCanvasElement): void {
+    const timeAt = (event: PointerEvent) => {
+      const rect = canvas.getBoundingClientRect();
+      const x = Math.max(0, Math.min(rect.width, event.clientX - rect.left));
+      return { x, time: rect.width > 0 ? (x / rect.width) * this.duration : 0 };
+    };
+
+    canvas.addEventListener("pointerdown", (event) => {
+      if (!this.audio) return;
+      const { x, time } = timeAt(event);
+      this.drag = { anchor: time, x };
+      canvas.setPointerCapture(event.pointerId);
+    });
+    canvas.addEventListener("pointermove", (event) => {
+      if (!this.drag) return;
+      const { x, time } = timeAt(event);
+      if (Math.abs(x - this.drag.x) < MIN_DRAG_PX) return;
+      this.selection = { start: Math.min(this.drag.anchor, time), end: Math.max(this.drag.anchor, time) };
+      this.draw();
+    });
+    const finish = (event: PointerEvent) => {
+      if (!this.drag) return;
+      const { x, time } = timeAt(event);
+      const anchor = this.drag;
+      this.drag = null;
+      if (canvas.hasPointerCapture(event.pointerId)) canvas.releasePointerCapture(event.pointerId);
+      this.select(
+        Math.abs(x - anchor.x) < MIN_DRAG_PX
+          ? null
+          : { start: Math.min(anchor.anchor, time), end: Math.max(anchor.anchor, time) }
+      );
+    };
+    canvas.addEventListener("pointerup", finish);
+    canvas.addEventListener("pointercancel", finish);
+  }
+
+  private drawWaveform(): void {
+    const canvas = this.canvases.waveform;
+    if (!canvas) return;
+    const prepared = prepareCanvas(canvas);
+    if (!prepared) return;
+    const { ctx, width, height } = prepared;
+    const mid = height / 2;
+
+    ctx.strokeStyle = COLORS.grid;
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(0, mid);
+    ctx.lineTo(width, mid);
+    ctx.stroke();
+    if (!this.audio) {
+      this.drawPlaceholder(ctx, width, height);
+      return;
+    }
+
+    // Min/max envelope per pixel column
+    const columns = Math.max(1, Math.floor(width));
+    if (!this.peaks || this.peaks.width !== columns) this.peaks = computePeaks(this.audio, columns);
+    ctx.fillStyle = COLORS.wave;
+    for (let x = 0; x < columns; x++) {
+      const top = mid - this.peaks.max[x] * (mid - 2);
+      const bottom = mid - this.peaks.min[x] * (mid - 2);
+      ctx.fillRect(x, top, 1, Math.max(1, bottom - top));
+    }
+
+    this.drawTimeAxis(ctx, width, height);
+    this.drawSelection(ctx, width, height);
+  }
+
+  private drawSpectrogram(): void {
+    const canvas = this.canvases.spectrogram;
+    if (!canvas) return;
+    const prepared = prepareCanvas(canvas);
+    if (!prepared) return;
+    const { ctx, width, height } = prepared;
+    if (!this.audio) {
+      this.drawPlaceholder(ctx, width, height);
+      return;
+    }
+
+    const columns = Math.max(1, Math.floor(width));
+    const rows = Math.max(1, Math.floor(height));
+    if (!this.spectrogram || this.spectrogram.width !== columns || this.spectrogram.height !== rows) {
+      this.spectrogram = { width: columns, height: rows, image: this.renderSpectrogram(columns, rows) };
+    }
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(this.spectrogram.image, 0, 0, width, height);
+
+    const minF = this.minFrequency;
+    const maxF = Math.min(this.maxFrequency, this.sampleRate / 2);
+    const yOf = (f: number) => height * (1 - Math.log(f / minF) / Math.log(maxF / minF));
+
+    // Frequency grid (100 Hz, 1 kHz, ...) with labels
+    ctx.font = "11px system-ui, sans-serif";
+    ctx.textAlign = "left";
+    for (const f of [100, 200, 500, 1000, 2000, 5000, 10000]) {
+      if (f <= minF || f >= maxF) continue;
+      const y = yOf(f);
+      ctx.strokeStyle = "rgba(148, 163, 184, 0.4)";
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(0, y);
+      ctx.lineTo(width, y);
+      ctx.stroke();
+      ctx.fillStyle = COLORS.muted;
+      ctx.fillText(f >= 1000 ? `${f / 1000}k` : `${f}`, 4, y - 2);
+    }
+
+    // Pitch contour: connected while frames are consecutive and voiced
+    const xOf = (t: number) => (t / this.duration) * width;
+    ctx.strokeStyle = COLORS.contour;
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    let drawing = false;
+    for (const sample of this.contour) {
+      if (sample.frequency === null || sample.frequency < minF || sample.frequency > maxF) {
+        drawing = false;
+        continue;
+      }
+      const x = xOf(sample.time);
+      const y = yOf(sample.frequency);
+      if (drawing) ctx.lineTo(x, y);
+      else ctx.moveTo(x, y);
+      drawing = true;
+    }
+    ctx.stroke();
+
+    this.drawSelection(ctx, width, height);
+  }
+
+  /**
+   * STFT image: one Hann-windowed frame centred on each column, magnitudes in dB
+   * relative to the loudest bin, sampled on a log-frequency row grid
+   */
+  private renderSpectrogram(columns: number, rows: number): HTMLCanvasElement {
+    const audio = this.audio!;
+    const n = this.fftSize;
+    const half = n / 2;
+    const minF = this.minFrequency;
+    const maxF = Math.min(this.maxFrequency, this.sampleRate / 2);
+
+    const window = new Float64Array(n);
+    for (let i = 0; i < n; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1));
+    // Fractional FFT bin for each row, top row = maxF
+    const rowBins = new Float64Array(rows);
+    for (let y = 0; y < rows; y++) {
+      const f = minF * Math.pow(maxF / minF, 1 - (y + 0.5) / rows);
+      rowBins[y] = Math.min(half - 1, (f * n) / this.sampleRate);
+    }
+
+    const levels = new Float32Array(columns * rows);
+    const re = new Float64Array(n);
+    const im = new Float64Array(n);
+    let peakDb = -Infinity;
+    for (let x = 0; x < columns; x++) {
+      const centre = Math.floor(((x + 0.5) / columns) * audio.length);
+      const start = centre - half;
+      for (let i = 0; i < n; i++) {
+        const j = start + i;
+        re[i] = j >= 0 && j < audio.length ? audio[j] * window[i] : 0;
+        im[i] = 0;
+      }
+      fft(re, im);
+      for (let y = 0; y < rows; y++) {
+        const bin = rowBins[y];
+        const k = Math.floor(bin);
+        const frac = bin - k;
+        const magA = Math.hypot(re[k], im[k]);
+        const magB = Math.hypot(re[k + 1], im[k + 1]);
+        const db = 20 * Math.log10(magA + (magB - magA) * frac + 1e-12);
+        levels[y * columns + x] = db;
+        if (db > peakDb) peakDb = db;
+      }
+    }
+
+    const image = document.createElement("canvas");
+    image.width = columns;
+    image.height = rows;
+    const ctx = image.getContext("2d");
+    if (!ctx) return image;
+    // Reference never below 0 dB (a -54 dBFS sine) so silence stays blank instead of being normalized up
+    const refDb = Math.max(peakDb, 0);
+    const pixels = ctx.createImageData(columns, rows);
+    for (let i = 0; i < levels.length; i++) {
+      const level = Math.max(0, Math.min(1, 1 - (refDb - levels[i]) / this.rangeDb));
+      const [r, g, b] = paletteColor(level);
+      pixels.data[i * 4] = r;
+      pixels.data[i * 4 + 1] = g;
+      pixels.data[i * 4 + 2] = b;
+      pixels.data[i * 4 + 3] = 255;
+    }
+    ctx.putImageData(pixels, 0, 0);
+    return image;
+  }
+
+  private drawTimeAxis(ctx: CanvasRenderingContext2D, width: number, height: number): void {
+    const duration = this.duration;
+    if (duration <= 0) return;
+    // Roughly one tick per 80 px, on a 1/2/5 step
+    const raw = (duration * 80) / width;
+    const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+    const step = [1, 2, 5, 10].map((m) => m * magnitude).find((s) => s >= raw) ?? raw;
+    ctx.fillStyle = COLORS.muted;
+    ctx.font = "11px system-ui, sans-serif";
+    ctx.textAlign = "center";
+    for (let t = step; t < duration; t += step) {
+      const x = (t / duration) * width;
+      ctx.fillRect(x, height - 6, 1, 6);
+      ctx.fillText(`${Number(t.toFixed(2))}s`, x, height - 8);
+    }
+  }
+
+  private drawSelection(ctx: CanvasRenderingContext2D, width: number, height: number): void {
+    const region = this.selection;
+    const duration = this.duration;
+    if (!region || duration <= 0) return;
+    const x0 = (region.start / duration) * width;
+    const x1 = (region.end / duration) * width;
+    ctx.fillStyle = COLORS.selection;
+    ctx.fillRect(x0, 0, x1 - x0, height);
+    ctx.fillStyle = COLORS.selectionEdge;
+    ctx.fillRect(x0, 0, 1, height);
+    ctx.fillRect(x1 - 1, 0, 1, height);
+  }
+
+  private drawPlaceholder(ctx: CanvasRenderingContext2D, width: number, height: number): void {
+    ctx.fillStyle = COLORS.muted;
+    ctx.font = "12px system-ui, sans-serif";
+    ctx.textAlign = "center";
+    ctx.fillText("No audio", width / 2, height / 2 + 4);
+  }
+}
+
+/** Min and max sample per column (columns split the buffer evenly) */
+function computePeaks(audio: Float32Array, columns: number): { width: number; min: Float32Array; max: Float32Array } {
+  const min = new Float32Array(columns);
+  const max = new Float32Array(columns);
+  for (let x = 0; x < columns; x++) {
+    const start = Math.floor((x / columns) * audio.length);
+    const end = Math.max(start + 1, Math.floor(((x + 1) / columns) * audio.length));
+    let lo = 0;
+    let hi = 0;
+    for (let i = start; i < end && i < audio.length; i++) {
+      if (audio[i] < lo) lo = audio[i];
+      if (audio[i] > hi) hi = audio[i];
+    }
+    min[x] = Math.max(-1, lo);
+    max[x] = Math.min(1, hi);
+  }
+  return { width: columns, min, max };
+}
+
+function paletteColor(level: number): [number, number, number] {
+  const pos = level * (PALETTE.length - 1);
+  const i = Math.min(PALETTE.length - 2, Math.floor(pos));
+  const t = pos - i;
+  const [a, b] = [PALETTE[i], PALETTE[i + 1]];
+  return [
+    Math.round(a[0] + (b[0] - a[0]) * t),
+    Math.round(a[1] + (b[1] - a[1]) * t),
+    Math.round(a[2] + (b[2] - a[2]) * t)
+  ];
+}
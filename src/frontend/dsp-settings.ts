@@ -0,0 +1,391 @@
+// frontend/dsp-settings.ts
+// Advanced DSP settings: one control per DSPConfig field, built-in presets,
+// localStorage persistence and import/export in the dsp-config.json format.
+
+import { defaultDSPConfig } from "../core/dsp/dsp-config.js";
+import type { DSPConfig } from "../core/dsp/dsp-config.js";
+import { DSP_CONFIG_FIELDS, parseDSPConfigFile, serializeDSPConfigFile, validateDSPConfig } from "../core/dsp/config-schema.js";
+import { BUILTIN_PRESETS, BUILTIN_PRESET_NAMES, builtinPresetLookup, resolveConfigFile } from "../core/dsp/presets.js";
+import { NOISE_REDUCTION_METHODS } from "../core/dsp/denoise.js";
+import { HUM_FILTER_MODES } from "../core/dsp/hum.js";
+import { filterResponse, formatFilterChain, logFrequencies, parseFilterChain } from "../core/dsp/filters.js";
+import type { FilterStage } from "../core/dsp/filters.js";
+
+export interface DSPSettingsElements {
+  /** Container the field controls are generated into */
+  fields: HTMLElement | null;
+  presetSelect?: HTMLSelectElement | null;
+  /** Hidden file input used by the import button */
+  importInput?: HTMLInputElement | null;
+  importButton?: HTMLButtonElement | null;
+  exportButton?: HTMLButtonElement | null;
+  resetButton?: HTMLButtonElement | null;
+  /** Validation errors and import notes */
+  status?: HTMLElement | null;
+  /** Frequency response plot of the configured filters */
+  response?: HTMLCanvasElement | null;
+}
+
+export interface DSPSettingsOptions {
+  /** localStorage key (default "yin.dspConfig") */
+  storageKey?: string;
+  /** Called with the full config after every valid change */
+  onChange?: (config: DSPConfig) => void;
+}
+
+/** How one field is shown: label, group, input step (numbers) or choices (text) */
+interface FieldControl {
+  label: string;
+  group: string;
+  unit?: string;
+  step?: number;
+  options?: readonly string[];
+}
+
+const FIELD_CONTROLS: Record<keyof DSPConfig, FieldControl> = {
+  highPassCutoff: { label: "High-pass cutoff", group: "Filtering", unit: "Hz (0 = off)", step: 1 },
+  lowPassCutoff: { label: "Low-pass cutoff", group: "Filtering", unit: "Hz (0 = off)", step: 1 },
+  highPassQ: { label: "High-pass Q", group: "Filtering", step: 0.001 },
+  lowPassQ: { label: "Low-pass Q", group: "Filtering", step: 0.001 },
+  humFilter: { label: "Hum notch", group: "Filtering", unit: "mains Hz (auto = detect 50/60)", options: HUM_FILTER_MODES },
+  humHarmonics: { label: "Hum harmonics", group: "Filtering", unit: "notches", step: 1 },
+  humNotchQ: { label: "Hum notch Q", group: "Filtering", unit: "width = Hz / Q", step: 1 },
+  humCutDb: { label: "Hum cut depth", group: "Filtering", unit: "dB (0 = full notch)", step: 1 },
+  filterChain: { label: "Filter chain", group: "Filtering", unit: "type Hz [order= q= gain=]; … (after HPF/LPF)" },
+  enableNoiseGate: { label: "Noise gate", group: "Noise control" },
+  noiseGateThreshold: { label: "Gate threshold", group: "Noise control", unit: "RMS", step: 0.001 },
+  adaptiveNoiseGate: { label: "Adaptive gate", group: "Noise control", unit: "follows the noise floor" },
+  noiseGateMarginDb: { label: "Adaptive margin", group: "Noise control", unit: "dB above the floor", step: 0.5 },
+  noiseReduction: { label: "Noise reduction", group: "Noise control", unit: "needs a noise profile", options: NOISE_REDUCTION_METHODS },
+  noiseReductionAmount: { label: "Reduction amount", group: "Noise control", unit: "× noise estimate", step: 0.1 },
+  noiseReductionFloor: { label: "Reduction floor", group: "Noise control", unit: "lowest gain", step: 0.01 },
+  noiseProfileMs: { label: "Live noise learning", group: "Noise control", unit: "ms at start (0 = on request)", step: 50 },
+  enableNormalization: { label: "Normalization", group: "Normalization" },
+  normalizationTargetRMS: { label: "Target RMS", group: "Normalization", step: 0.01 },
+  enableMedianSmoothing: { label: "Median smoothing", group: "Smoothing" },
+  medianWindowSize: { label: "Median window", group: "Smoothing", unit: "frames", step: 1 },
+  enableMovingAverage: { label: "Moving average", group: "Smoothing" },
+  movingAverageAlpha: { label: "EMA alpha", group: "Smoothing", unit: "lower = smoother", step: 0.01 },
+  minFrequency: { label: "Min frequency", group: "Pitch range", unit: "Hz (0 = frame limit)", step: 1 },
+  maxFrequency: { label: "Max frequency", group: "Pitch range", unit: "Hz (0 = no limit)", step: 1 },
+  voicingMinRMS: { label: "Min RMS", group: "Voicing", step: 0.001 },
+  voicingMaxAperiodicity: { label: "Max aperiodicity", group: "Voicing", step: 0.01 },
+  voicingMaxZeroCrossingRate: { label: "Max zero-crossing rate", group: "Voicing", unit: "0 = off", step: 0.01 },
+  voicingMinConfidence: { label: "Min confidence", group: "Voicing", step: 0.01 },
+  frameSize: { label: "Frame size", group: "Framing", unit: "samples" },
+  hopSize: { label: "Hop size", group: "Framing", unit: "samples", step: 1 },
+  analysisSampleRate: { label: "Analysis sample rate", group: "Framing", unit: "Hz (0 = input rate)", step: 1 },
+};
+
+/** frameSize choices (the schema allows any power of two in this range) */
+const FRAME_SIZES = [64, 128, 256, 512, 1024, 2048, 4096, 8192, 16384, 32768, 65536];
+
+/** Response plot: rate used when analysisSampleRate is 0 (typical device rate) and dB range */
+const RESPONSE_SAMPLE_RATE = 48000;
+const RESPONSE_MIN_DB = -60;
+const RESPONSE_MAX_DB = 12;
+
+/**
+ * DSPSettingsPanel
+ * Generates the controls, validates every edit against the config schema
+ * (invalid edits are shown and not applied) and stores the fields that differ
+ * from the defaults, so later default changes still reach unchanged fields.
+ */
+export class DSPSettingsPanel {
+  private current: DSPConfig = { ...defaultDSPConfig };
+  /** Built-in preset the config came from, until a field is edited */
+  private preset = "";
+  private readonly inputs = new Map<keyof DSPConfig, HTMLInputElement | HTMLSelectElement>();
+  private readonly storageKey: string;
+
+  constructor(private elements: DSPSettingsElements, private options: DSPSettingsOptions = {}) {
+    this.storageKey = options.storageKey ?? "yin.dspConfig";
+    this.buildControls();
+    this.load();
+  }
+
+  /** Full config as currently applied */
+  get config(): DSPConfig {
+    return { ...this.current };
+  }
+
+  /**
+   * Replace the whole config (missing fields take the defaults), refresh the
+   * controls, persist and notify
+   * @returns validation issues; the config is left unchanged when there are any
+   */
+  setConfig(config: Partial<DSPConfig>, preset = ""): string[] {
+    const next: DSPConfig = { ...defaultDSPConfig, ...config };
+    const issues = validateDSPConfig(next);
+    if (issues.length) return issues;
+    this.current = next;
+    this.preset = preset;
+    this.render();
+    this.save();
+    this.options.onChange?.(this.config);
+    return [];
+  }
+
+  /** Apply a built-in preset on top of the defaults */
+  applyPreset(name: string): void {
+    const preset = BUILTIN_PRESETS[name];
+    if (!preset) return;
+    this.setConfig(resolveConfigFile(preset, builtinPresetLookup, `preset "${name}"`), name);
+    this.showStatus([]);
+  }
+
+  /**
+   * Load a config file's text (same format as dsp-config.json; `extends` may
+   * name a built-in preset). Problems are shown in the status line.
+   */
+  importText(text: string, source: string): boolean {
+    try {
+      const { file, warnings } = parseDSPConfigFile(JSON.parse(text), source);
+      const issues = this.setConfig(resolveConfigFile(file, builtinPresetLookup, source));
+      if (issues.length) throw new Error(`Invalid DSP config in ${source}:\n  - ${issues.join("\n  - ")}`);
+      this.showStatus(warnings.map((w) => `${source}: ${w}`), false);
+      return true;
+    } catch (e: any) {
+      this.showStatus([e instanceof SyntaxError ? `${source} is not valid JSON: ${e.message}` : e?.message || String(e)]);
+      return false;
+    }
+  }
+
+  /** Current config as a version-stamped dsp-config.json text */
+  exportText(): string {
+    const meta = this.preset ? { name: this.preset, description: BUILTIN_PRESETS[this.preset]?.description } : {};
+    return JSON.stringify(serializeDSPConfigFile(this.current, meta), null, 2) + "\n";
+  }
+
+  private buildControls(): void {
+    const { fields, presetSelect, importInput, importButton, exportButton, resetButton } = this.elements;
+    if (fields) {
+      let group: HTMLFieldSetElement | null = null;
+      for (const key of DSP_CONFIG_FIELDS) {
+        const control = FIELD_CONTROLS[key];
+        if (!group || group.dataset.group !== control.group) {
+          group = document.createElement("fieldset");
+          group.dataset.group = control.group;
+          const legend = document.createElement("legend");
+          legend.textContent = control.group;
+          group.appendChild(legend);
+          fields.appendChild(group);
+        }
+        group.appendChild(this.buildField(key, control));
+      }
+    }
+
+    if (presetSelect) {
+      presetSelect.appendChild(new Option("Custom", ""));
+      for (const name of BUILTIN_PRESET_NAMES) {
+        const option = new Option(name, name);
+        option.title = BUILTIN_PRESETS[name].description ?? "";
+        presetSelect.appendChild(option);
+      }
+      presetSelect.addEventListener("change", () => {
+        if (presetSelect.value) this.applyPreset(presetSelect.value);
+      });
+    }
+
+    if (importButton && importInput) {
+      importButton.addEventListener("click", () => importInput.click());
+      importInput.addEventListener("change", async () => {
+        const file = importInput.files?.[0];
+        importInput.value = "";
+        if (file) this.importText(await file.text(), file.name);
+      });
+    }
+
+    exportButton?.addEventListener("click", () => {
+      const blob = new Blob([this.exportText()], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = "dsp-config.json";
+      document.body.appendChild(a);
+      a.click();
+      a.remove();
+      URL.revokeObjectURL(url);
+    });
+
+    resetButton?.addEventListener("click", () => {
+      this.setConfig({});
+      this.showStatus([]);
+    });
+  }
+
+  private buildField(key: keyof DSPConfig, control: FieldControl): HTMLElement {
+    const row = document.createElement("label");
+    row.className = "dspField";
+    const id = `dsp-${key}`;
+    row.htmlFor = id;
+
+    let input: HTMLInputElement | HTMLSelectElement;
+    if (typeof defaultDSPConfig[key] === "boolean") {
+      input = document.createElement("input");
+      input.type = "checkbox";
+    } else if (key === "frameSize") {
+      input = document.createElement("select");
+      for (const size of FRAME_SIZES) input.appendChild(new Option(String(size), String(size)));
+    } else if (control.options) {
+      input = document.createElement("select");
+      for (const choice of control.options) input.appendChild(new Option(choice, choice));
+    } else if (key === "filterChain") {
+      input = document.createElement("input");
+      input.type = "text";
+      input.placeholder = "highpass 40 order=4; lowpass 1200 order=8";
+      row.classList.add("dspChain");
+    } else {
+      input = document.createElement("input");
+      input.type = "number";
+      input.min = "0";
+      if (control.step !== undefined) input.step = String(control.step);
+      input.placeholder = String(defaultDSPConfig[key] ?? "");
+    }
+    input.id = id;
+    input.addEventListener("change", () => this.editField(key));
+
+    const name = document.createElement("span");
+    name.textContent = control.label;
+    row.append(name, input);
+    if (control.unit) {
+      const unit = document.createElement("small");
+      unit.textContent = control.unit;
+      row.appendChild(unit);
+    }
+    this.inputs.set(key, input);
+    return row;
+  }
+
+  /** One control changed: validate the whole config with it, apply if valid */
+  private editField(key: keyof DSPConfig): void {
+    const input = this.inputs.get(key)!;
+    let value: boolean | number | string | FilterStage[] | undefined;
+    if (input instanceof HTMLInputElement && input.type === "checkbox") {
+      value = input.checked;
+    } else if (key === "filterChain") {
+      try {
+        value = parseFilterChain(input.value);
+      } catch (e: any) {
+        input.classList.add("invalid");
+        this.showStatus([`filterChain: ${e?.message || e}`]);
+        return;
+      }
+    } else if (FIELD_CONTROLS[key].options) {
+      value = input.value;
+    } else {
+      // An emptied number field goes back to its default
+      value = input.value.trim() === "" ? (defaultDSPConfig[key] as number | undefined) : Number(input.value);
+    }
+
+    const issues = this.setConfig({ ...this.current, [key]: value });
+    for (const [field, el] of this.inputs) {
+      // filterChain issues name the stage: "filterChain[1].order: …"
+      el.classList.toggle("invalid", issues.some((issue) => issue.startsWith(`${field}:`) || issue.startsWith(`${field}[`)));
+    }
+    this.showStatus(issues);
+  }
+
+  /** Controls ← current config */
+  private render(): void {
+    for (const [key, input] of this.inputs) {
+      const value = this.current[key];
+      if (input instanceof HTMLInputElement && input.type === "checkbox") input.checked = value === true;
+      else if (Array.isArray(value)) input.value = formatFilterChain(value);
+      else input.value = value === undefined ? "" : String(value);
+      input.classList.remove("invalid");
+    }
+    if (this.elements.presetSelect) this.elements.presetSelect.value = this.preset;
+    this.drawResponse();
+  }
+
+  /** Gain of HPF, hum notches, LPF and chain together, 20 Hz–Nyquist on a log axis */
+  private drawResponse(): void {
+    const canvas = this.elements.response;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    const sampleRate = this.current.analysisSampleRate || RESPONSE_SAMPLE_RATE;
+    const width = canvas.width;
+    const height = canvas.height;
+    const minHz = 20;
+    const maxHz = sampleRate / 2;
+    const x = (hz: number) => (Math.log(hz / minHz) / Math.log(maxHz / minHz)) * width;
+    const y = (db: number) =>
+      ((RESPONSE_MAX_DB - Math.max(RESPONSE_MIN_DB, Math.min(RESPONSE_MAX_DB, db))) / (RESPONSE_MAX_DB - RESPONSE_MIN_DB)) * height;
+
+    ctx.clearRect(0, 0, width, height);
+    ctx.font = "10px system-ui, sans-serif";
+    ctx.lineWidth = 1;
+    ctx.strokeStyle = "#e2e8f0";
+    ctx.fillStyle = "#64748b";
+    for (const hz of [50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000]) {
+      if (hz >= maxHz) break;
+      ctx.beginPath();
+      ctx.moveTo(x(hz), 0);
+      ctx.lineTo(x(hz), height);
+      ctx.stroke();
+      ctx.fillText(hz >= 1000 ? `${hz / 1000}k` : String(hz), x(hz) + 2, height - 2);
+    }
+    for (let db = RESPONSE_MAX_DB; db >= RESPONSE_MIN_DB; db -= 12) {
+      ctx.beginPath();
+      ctx.moveTo(0, y(db));
+      ctx.lineTo(width, y(db));
+      ctx.stroke();
+      ctx.fillText(`${db} dB`, 2, y(db) + 10);
+    }
+
+    ctx.strokeStyle = "#2563eb";
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    filterResponse(this.current, sampleRate, logFrequencies(minHz, maxHz, width)).forEach(({ frequency, magnitudeDb }, i) => {
+      if (i === 0) ctx.moveTo(x(frequency), y(magnitudeDb));
+      else ctx.lineTo(x(frequency), y(magnitudeDb));
+    });
+    ctx.stroke();
+    ctx.fillText(`at ${sampleRate} Hz`, width - 60, 10);
+  }
+
+  private showStatus(messages: string[], isError = true): void {
+    const status = this.elements.status;
+    if (!status) return;
+    status.textContent = messages.join("\n");
+    status.classList.toggle("error", isError && messages.length > 0);
+  }
+
+  /** Fields that differ from the defaults, as a config file (preset name kept as `name`) */
+  private save(): void {
+    const changed: Partial<DSPConfig> = {};
+    for (const key of DSP_CONFIG_FIELDS) {
+      // JSON comparison so an equal filterChain list counts as unchanged
+      if (JSON.stringify(this.current[key]) !== JSON.stringify(defaultDSPConfig[key])) {
+        (changed as Record<string, unknown>)[key] = this.current[key];
+      }
+    }
+    try {
+      localStorage.setItem(this.storageKey, JSON.stringify(serializeDSPConfigFile(changed, { name: this.preset })));
+    } catch (e) {
+      console.warn("Could not store DSP settings:", e);
+    }
+  }
+
+  /** Restore the stored config; an unreadable one is reported and the defaults are used */
+  private load(): void {
+    let stored: string | null = null;
+    try {
+      stored = localStorage.getItem(this.storageKey);
+    } catch (_) {}
+    if (!stored) {
+      this.render();
+      return;
+    }
+    try {
+      const { file } = parseDSPConfigFile(JSON.parse(stored), "saved settings");
+      const preset = file.name && BUILTIN_PRESETS[file.name] ? file.name : "";
+      const issues = this.setConfig(file.config, preset);
+      if (issues.length) throw new Error(`Invalid DSP config in saved settings:\n  - ${issues.join("\n  - ")}`);
+    } catch (e: any) {
+      this.render();
+      this.showStatus([`${e?.message || e}`, "Using the defaults."]);
+    }
+  }
+}
@@ -0,0 +1,383 @@
+// frontend/tuner-display.ts
+// Canvas views for the live tuner: cents needle, strobe and scrolling pitch history.
+// All three are fed from the live PitchResult stream through TunerDisplay.push().
+
+import { centsOffFromReference, frequencyToNote, midiToFrequency, noteToMidi, parseExpectedNote } from "../core/note-utils.js";
+import type { TuningConfig } from "../core/note-utils.js";
+import { DEFAULT_TOLERANCE_CENTS } from "../core/pitch-engine.js";
+import type { PitchResult } from "../core/pitch-engine.js";
+
+/** One live frame, reduced to what the views draw */
+export interface TunerReading {
+  /** Stream time of the frame in seconds */
+  time: number;
+  frequency: number | null;
+  confidence: number;
+  /** Target pitch: the expected note if given, otherwise the nearest note of the tuning */
+  target: number | null;
+  /** Name of the target note (or "440 Hz" style for a plain expected frequency) */
+  targetNote?: string;
+  /** Deviation from the target in cents (null on unvoiced frames) */
+  cents: number | null;
+}
+
+export interface TunerDisplayOptions {
+  /** Needle scale: ± this many cents (default 50) */
+  rangeCents?: number;
+  /** Half-width of the green in-tune zone in cents (default DEFAULT_TOLERANCE_CENTS) */
+  inTuneCents?: number;
+  /** Seconds of history shown (default 10) */
+  historySeconds?: number;
+}
+
+const COLORS = {
+  text: "#0f172a",
+  muted: "#94a3b8",
+  grid: "#e2e8f0",
+  inTune: "#22c55e",
+  inTuneZone: "rgba(34, 197, 94, 0.18)",
+  sharp: "#f97316",
+  flat: "#6366f1"
+};
+
+/**
+ * Resolve the target and cents for a live result.
+ * Uses the full-precision frequency (PitchResult.deviation is text only).
+ */
+export function toReading(
+  res: PitchResult,
+  time: number,
+  tuning: TuningConfig,
+  expectedNote?: string
+): TunerReading {
+  const reading: TunerReading = { time, frequency: res.frequency, confidence: res.confidence, target: null, cents: null };
+  if (!res.voiced || res.frequency === null) return reading;
+
+  let target: number | null = null;
+  let targetNote: string | undefined;
+  if (expectedNote) {
+    target = parseExpectedNote(expectedNote, tuning);
+    targetNote = res.expectedNote ?? expectedNote;
+  }
+  if (target === null) {
+    const nearest = frequencyToNote(res.frequency, tuning);
+    const midi = noteToMidi(nearest.note);
+    if (midi === null) return reading;
+    target = midiToFrequency(midi, tuning);
+    targetNote = nearest.note;
+  }
+
+  reading.target = target;
+  reading.targetNote = targetNote;
+  reading.cents = centsOffFromReference(res.frequency, target);
+  return reading;
+}
+
+/** Size the backing store to the CSS box (× devicePixelRatio) and return a context in CSS pixels */
+export function prepareCanvas(canvas: HTMLCanvasElement): { ctx: CanvasRenderingContext2D; width: number; height: number } | null {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+  const dpr = window.devicePixelRatio || 1;
+  const width = canvas.clientWidth || canvas.width;
+  const height = canvas.clientHeight || canvas.height;
+  const w = Math.round(width * dpr);
+  const h = Math.round(height * dpr);
+  if (canvas.width !== w || canvas.height !== h) {
+    canvas.width = w;
+    canvas.height = h;
+  }
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  ctx.clearRect(0, 0, width, height);
+  return { ctx, width, height };
+}
+
+function centsColor(cents: number, inTuneCents: number): string {
+  if (Math.abs(cents) <= inTuneCents) return COLORS.inTune;
+  return cents > 0 ? COLORS.sharp : COLORS.flat;
+}
+
+function formatCents(cents: number): string {
+  return `${cents >= 0 ? "+" : ""}${cents.toFixed(1)}¢`;
+}
+
+/**
+ * NeedleMeter
+ * Half-dial from -range to +range cents with a green in-tune zone.
+ * The needle eases toward the latest reading and parks at 0 (grey) without one.
+ */
+export class NeedleMeter {
+  private shown = 0;
+
+  constructor(
+    private canvas: HTMLCanvasElement,
+    private rangeCents: number,
+    private inTuneCents: number
+  ) {}
+
+  draw(reading: TunerReading | null): void {
+    const prepared = prepareCanvas(this.canvas);
+    if (!prepared) return;
+    const { ctx, width, height } = prepared;
+
+    const cents = reading?.cents ?? null;
+    const goal = cents === null ? 0 : Math.max(-this.rangeCents, Math.min(this.rangeCents, cents));
+    this.shown += (goal - this.shown) * 0.35;
+
+    const cx = width / 2;
+    const cy = height - 24;
+    const radius = Math.max(10, Math.min(width / 2 - 12, height - 40));
+    const sweep = Math.PI * 0.8; // total dial angle
+    const angleOf = (c: number) => -Math.PI / 2 + (c / this.rangeCents) * (sweep / 2);
+
+    // In-tune zone
+    ctx.beginPath();
+    ctx.moveTo(cx, cy);
+    ctx.arc(cx, cy, radius, angleOf(-this.inTuneCents), angleOf(this.inTuneCents));
+    ctx.closePath();
+    ctx.fillStyle = COLORS.inTuneZone;
+    ctx.fill();
+
+    // Ticks every 10 cents (long ones at 0 and the ends)
+    ctx.strokeStyle = COLORS.muted;
+    ctx.fillStyle = COLORS.muted;
+    ctx.font = "11px system-ui, sans-serif";
+    ctx.textAlign = "center";
+    const step = this.rangeCents >= 40 ? 10 : 5;
+    for (let c = -this.rangeCents; c <= this.rangeCents + 1e-9; c += step) {
+      const a = angleOf(c);
+      const major = c === 0 || Math.abs(c) >= this.rangeCents - 1e-9;
+      const inner = radius - (major ? 14 : 8);
+      ctx.lineWidth = major ? 2 : 1;
+      ctx.beginPath();
+      ctx.moveTo(cx + Math.cos(a) * inner, cy + Math.sin(a) * inner);
+      ctx.lineTo(cx + Math.cos(a) * radius, cy + Math.sin(a) * radius);
+      ctx.stroke();
+      if (major) {
+        ctx.fillText(c > 0 ? `+${c}` : `${c}`, cx + Math.cos(a) * (radius - 24), cy + Math.sin(a) * (radius - 24) + 4);
+      }
+    }
+
+    // Needle
+    const a = angleOf(this.shown);
+    ctx.strokeStyle = cents === null ? COLORS.muted : centsColor(cents, this.inTuneCents);
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.moveTo(cx, cy);
+    ctx.lineTo(cx + Math.cos(a) * (radius - 4), cy + Math.sin(a) * (radius - 4));
+    ctx.stroke();
+    ctx.beginPath();
+    ctx.arc(cx, cy, 5, 0, Math.PI * 2);
+    ctx.fillStyle = COLORS.text;
+    ctx.fill();
+
+    // Readout
+    ctx.fillStyle = COLORS.text;
+    ctx.font = "600 14px system-ui, sans-serif";
+    ctx.fillText(
+      cents === null || !reading?.targetNote ? "---" : `${reading.targetNote}  ${formatCents(cents)}`,
+      cx,
+      height - 4
+    );
+  }
+
+  reset(): void {
+    this.shown = 0;
+  }
+}
+
+/**
+ * StrobeDisplay
+ * Bands of stripes that move by the phase drift between the detected pitch and
+ * the target: band k drifts (f − target) · 2^k stripe periods per second, so the
+ * pattern stands still when in tune and the upper bands show small errors sooner.
+ */
+export class StrobeDisplay {
+  private phases: number[];
+  /** Cap on the drift rate; faster motion only aliases */
+  private static readonly MAX_DRIFT_HZ = 8;
+
+  constructor(private canvas: HTMLCanvasElement, private bands = 3) {
+    this.phases = new Array(bands).fill(0);
+  }
+
+  /** Advance by `dt` seconds at the latest reading and redraw */
+  draw(reading: TunerReading | null, dt: number): void {
+    const drift = reading && reading.frequency !== null && reading.target !== null
+      ? reading.frequency - reading.target
+      : null;
+
+    if (drift !== null) {
+      for (let k = 0; k < this.bands; k++) {
+        const rate = Math.max(-StrobeDisplay.MAX_DRIFT_HZ, Math.min(StrobeDisplay.MAX_DRIFT_HZ, drift * 2 ** k));
+        this.phases[k] = (this.phases[k] + rate * dt) % 1;
+      }
+    }
+
+    const prepared = prepareCanvas(this.canvas);
+    if (!prepared) return;
+    const { ctx, width, height } = prepared;
+
+    const bandHeight = height / this.bands;
+    ctx.fillStyle = drift === null ? COLORS.grid : COLORS.text;
+    for (let k = 0; k < this.bands; k++) {
+      // Finer stripes on the faster bands
+      const period = Math.max(8, 48 / 2 ** k);
+      const offset = ((this.phases[k] % 1) + 1) % 1 * period;
+      const y = k * bandHeight + 2;
+      for (let x = offset - period; x < width; x += period) {
+        ctx.fillRect(x, y, period / 2, bandHeight - 4);
+      }
+    }
+  }
+
+  reset(): void {
+    this.phases.fill(0);
+  }
+}
+
+/**
+ * PitchHistory
+ * Scrolling plot of cents deviation over the last `seconds`, one dot per frame
+ * (opacity follows confidence). Gaps are left where no confident pitch was found.
+ */
+export class PitchHistory {
+  private readings: TunerReading[] = [];
+
+  constructor(
+    private canvas: HTMLCanvasElement,
+    private seconds: number,
+    private rangeCents: number,
+    private inTuneCents: number
+  ) {}
+
+  push(reading: TunerReading): void {
+    this.readings.push(reading);
+    const cutoff = reading.time - this.seconds;
+    let drop = 0;
+    while (drop < this.readings.length && this.readings[drop].time < cutoff) drop++;
+    if (drop > 0) this.readings.splice(0, drop);
+  }
+
+  draw(): void {
+    const prepared = prepareCanvas(this.canvas);
+    if (!prepared) return;
+    const { ctx, width, height } = prepared;
+
+    const yOf = (c: number) => height / 2 - (c / this.rangeCents) * (height / 2 - 4);
+
+    // In-tune band and grid
+    ctx.fillStyle = COLORS.inTuneZone;
+    ctx.fillRect(0, yOf(this.inTuneCents), width, yOf(-this.inTuneCents) - yOf(this.inTuneCents));
+    ctx.strokeStyle = COLORS.grid;
+    ctx.lineWidth = 1;
+    for (const c of [-this.rangeCents / 2, 0, this.rangeCents / 2]) {
+      ctx.beginPath();
+      ctx.moveTo(0, yOf(c));
+      ctx.lineTo(width, yOf(c));
+      ctx.stroke();
+    }
+    ctx.fillStyle = COLORS.muted;
+    ctx.font = "11px system-ui, sans-serif";
+    ctx.textAlign = "left";
+    ctx.fillText(`+${this.rangeCents / 2}¢`, 4, yOf(this.rangeCents / 2) - 2);
+    ctx.fillText(`-${this.rangeCents / 2}¢`, 4, yOf(-this.rangeCents / 2) - 2);
+
+    if (this.readings.length === 0) return;
+    const end = this.readings[this.readings.length - 1].time;
+    const xOf = (t: number) => width - ((end - t) / this.seconds) * width;
+
+    let lastNote: string | undefined;
+    for (const r of this.readings) {
+      if (r.cents === null) {
+        lastNote = undefined;
+        continue;
+      }
+      const c = Math.max(-this.rangeCents, Math.min(this.rangeCents, r.cents));
+      const x = xOf(r.time);
+      ctx.globalAlpha = Math.max(0.25, Math.min(1, r.confidence));
+      ctx.fillStyle = centsColor(r.cents, this.inTuneCents);
+      ctx.fillRect(x - 1, yOf(c) - 1, 3, 3);
+      // Label each new target note where it starts
+      if (r.targetNote && r.targetNote !== lastNote) {
+        ctx.globalAlpha = 1;
+        ctx.fillStyle = COLORS.text;
+        ctx.fillText(r.targetNote, Math.min(x + 2, width - 28), 12);
+      }
+      lastNote = r.targetNote;
+    }
+    ctx.globalAlpha = 1;
+  }
+
+  reset(): void {
+    this.readings = [];
+  }
+}
+
+/**
+ * TunerDisplay
+ * Owns the three views and redraws them on animation frames while running.
+ * Results can arrive faster than the display refresh; only the latest one is
+ * drawn by the needle/strobe, the history keeps them all.
+ */
+export class TunerDisplay {
+  private needle: NeedleMeter | null;
+  private strobe: StrobeDisplay | null;
+  private history: PitchHistory | null;
+  private latest: TunerReading | null = null;
+  private rafId: number | null = null;
+  private lastDraw = 0;
+  private static readonly HOLD_SECONDS = 0.25;
+
+  constructor(
+    canvases: { needle?: HTMLCanvasElement | null; strobe?: HTMLCanvasElement | null; history?: HTMLCanvasElement | null },
+    options: TunerDisplayOptions = {}
+  ) {
+    const range = options.rangeCents ?? 50;
+    const inTune = options.inTuneCents ?? DEFAULT_TOLERANCE_CENTS;
+    this.needle = canvases.needle ? new NeedleMeter(canvases.needle, range, inTune) : null;
+    this.strobe = canvases.strobe ? new StrobeDisplay(canvases.strobe) : null;
+    this.history = canvases.history
+      ? new PitchHistory(canvases.history, options.historySeconds ?? 10, range, inTune)
+      : null;
+  }
+
+  push(reading: TunerReading): void {
+    // Keep showing the last pitch across short dropouts (single noisy frames)
+    const hold = this.latest !== null && this.latest.cents !== null
+      && reading.cents === null && reading.time - this.latest.time < TunerDisplay.HOLD_SECONDS;
+    if (!hold) this.latest = reading;
+    this.history?.push(reading);
+  }
+
+  start(): void {
+    if (this.rafId !== null) return;
+    this.lastDraw = performance.now();
+    const tick = (now: number) => {
+      const dt = Math.min(0.1, Math.max(0, (now - this.lastDraw) / 1000));
+      this.lastDraw = now;
+      this.draw(dt);
+      this.rafId = requestAnimationFrame(tick);
+    };
+    this.rafId = requestAnimationFrame(tick);
+  }
+
+  /** Stop animating; the last picture stays on the canvases */
+  stop(): void {
+    if (this.rafId !== null) cancelAnimationFrame(this.rafId);
+    this.rafId = null;
+  }
+
+  reset(): void {
+    this.latest = null;
+    this.needle?.reset();
+    this.strobe?.reset();
+    this.history?.reset();
+    this.draw(0);
+  }
+
+  private draw(dt: number): void {
+    this.needle?.draw(this.latest);
+    this.strobe?.draw(this.latest, dt);
+    this.history?.draw();
+  }
+}
@@ -0,0 +1,47 @@
+// frontend/worklet-messages.ts
+// Names and message shapes shared by app.ts and the AudioWorklet processors (worklet.ts)
+
+import type { DSPConfig } from "../core/dsp/dsp-config.js";
+import type { TuningConfig } from "../core/note-utils.js";
+import type { PitchResult } from "../core/pitch-engine.js";
+
+export const TUNER_PROCESSOR = "tuner-processor";
+export const RECORDER_PROCESSOR = "recorder-processor";
+
+/** processorOptions for the tuner node */
+export interface TunerProcessorOptions {
+  /** Full config; frameSize already fitted to the F0 range at the analysis rate */
+  config: DSPConfig;
+  tuning: TuningConfig;
+  expectedNote?: string;
+  /** Learn the noise profile from the first config.noiseProfileMs of input */
+  learnNoise?: boolean;
+}
+
+/**
+ * Main thread → tuner. "config" goes to PitchEngine.updateConfig; it must keep
+ * the frame size, hop and analysis rate the node was created with.
+ */
+export type TunerCommand =
+  | { type: "expectedNote"; expectedNote?: string }
+  | { type: "config"; config: DSPConfig }
+  | { type: "learnNoise" };
+
+/** Tuner → main thread */
+export type TunerMessage =
+  | { type: "result"; result: PitchResult; time: number }
+  /** A noise profile finished learning (RMS of the profiled input) */
+  | { type: "noiseProfile"; rms: number }
+  | { type: "error"; message: string };
+
+/** processorOptions for the recorder node */
+export interface RecorderProcessorOptions {
+  /** Samples per posted chunk */
+  chunkSize: number;
+}
+
+/** Recorder → main thread (mono, at the context rate) */
+export interface RecorderMessage {
+  type: "chunk";
+  samples: Float32Array;
+}
@@ -0,0 +1,139 @@
+// frontend/worklet.ts
+// AudioWorklet processors: live pitch tracking and mic capture off the main thread.
+// Loaded with audioWorklet.addModule(); see worklet-messages.ts for the protocol.
+
+import { PitchEngine } from "../core/pitch-engine.js";
+import { FrameAccumulator, resolveHopSize } from "../core/dsp/framing.js";
+import { Resampler, resolveAnalysisRate } from "../core/dsp/resample.js";
+import { mixToMono } from "../core/wav.js";
+import type { TuningConfig } from "../core/note-utils.js";
+import { RECORDER_PROCESSOR, TUNER_PROCESSOR } from "./worklet-messages.js";
+import type {
+  RecorderMessage,
+  RecorderProcessorOptions,
+  TunerCommand,
+  TunerMessage,
+  TunerProcessorOptions,
+} from "./worklet-messages.js";
+
+// AudioWorkletGlobalScope (not part of lib.dom)
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(
+  name: string,
+  processorCtor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor
+): void;
+
+/**
+ * TunerProcessor
+ * Mixes the input to mono, resamples to the analysis rate, re-frames with the
+ * configured hop and posts one PitchResult per frame.
+ */
+class TunerProcessor extends AudioWorkletProcessor {
+  private engine: PitchEngine | null = null;
+  private resampler: Resampler | null = null;
+  private framer: FrameAccumulator | null = null;
+  private tuning: TuningConfig = {};
+  private expectedNote?: string;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    const { config, tuning, expectedNote, learnNoise } = options.processorOptions as TunerProcessorOptions;
+    this.tuning = tuning;
+    this.expectedNote = expectedNote;
+    try {
+      const analysisRate = resolveAnalysisRate(sampleRate, config);
+      this.resampler = analysisRate !== sampleRate ? new Resampler(sampleRate, analysisRate) : null;
+      this.framer = new FrameAccumulator(config.frameSize, resolveHopSize(config), analysisRate);
+      this.engine = new PitchEngine(analysisRate, config);
+      if (learnNoise) this.engine.learnNoiseProfile();
+    } catch (e: any) {
+      this.post({ type: "error", message: e?.message || String(e) });
+    }
+
+    this.port.onmessage = (ev: MessageEvent<TunerCommand>) => {
+      const cmd = ev.data;
+      if (cmd.type === "expectedNote") {
+        this.expectedNote = cmd.expectedNote;
+      } else if (cmd.type === "learnNoise") {
+        this.engine?.learnNoiseProfile();
+      } else if (cmd.type === "config") {
+        try {
+          this.engine?.updateConfig(cmd.config);
+        } catch (e: any) {
+          this.post({ type: "error", message: e?.message || String(e) });
+        }
+      }
+    };
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const input = inputs[0];
+    if (!this.engine || !this.framer || !input || input.length === 0) return true;
+
+    const mono = mixToMono(input);
+    const chunk = this.resampler ? this.resampler.process(mono) : mono;
+    let learning = this.engine.learningNoise;
+    for (const { time, hop, frame } of this.framer.push(chunk)) {
+      const result = this.engine.processFrame(frame, {
+        expectedNote: this.expectedNote,
+        smoothing: true,
+        hop,
+        tuning: this.tuning,
+      });
+      this.post({ type: "result", result, time });
+      if (learning && !this.engine.learningNoise) {
+        learning = false;
+        this.post({ type: "noiseProfile", rms: this.engine.noiseProfile?.rms ?? 0 });
+      }
+    }
+    return true;
+  }
+
+  private post(message: TunerMessage): void {
+    this.port.postMessage(message);
+  }
+}
+
+/**
+ * RecorderProcessor
+ * Collects mono input and posts it in chunks of `chunkSize` samples
+ * (a trailing partial chunk is dropped when the node is disconnected).
+ */
+class RecorderProcessor extends AudioWorkletProcessor {
+  private chunk: Float32Array;
+  private filled = 0;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    const { chunkSize } = options.processorOptions as RecorderProcessorOptions;
+    this.chunk = new Float32Array(chunkSize);
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const input = inputs[0];
+    if (!input || input.length === 0) return true;
+
+    const mono = mixToMono(input);
+    let offset = 0;
+    while (offset < mono.length) {
+      const n = Math.min(mono.length - offset, this.chunk.length - this.filled);
+      this.chunk.set(mono.subarray(offset, offset + n), this.filled);
+      this.filled += n;
+      offset += n;
+      if (this.filled === this.chunk.length) {
+        const message: RecorderMessage = { type: "chunk", samples: this.chunk };
+        this.port.postMessage(message, [this.chunk.buffer]);
+        this.chunk = new Float32Array(this.chunk.length);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor(TUNER_PROCESSOR, TunerProcessor);
+registerProcessor(RECORDER_PROCESSOR, RecorderProcessor);
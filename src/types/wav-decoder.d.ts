@@ -1 +0,0 @@
-declare module "wav-decoder";